@@ -0,0 +1,9 @@
+import { compareResults, formatComparison } from '../lib/compare'
+import { readResults } from '../lib/results'
+
+// Порівняння двох збережених eval (за evalId або шляхом до `.json`). Повертає `false`, якщо є регресії
+export async function runCompare(beforeRef: string, afterRef: string, threshold: number): Promise<boolean> {
+  const comparison = compareResults(await readResults(beforeRef), await readResults(afterRef), threshold)
+  console.log(formatComparison(comparison))
+  return !comparison.regressions.length
+}
@@ -0,0 +1,36 @@
+import { resetAgentCallStats } from '../lib/call_agent'
+import type { CurriculumProfile } from '../lib/curriculum'
+import type { ScoreBreakdown } from '../lib/report'
+import { type EvalOptions, runEval } from './eval'
+
+const pct = (score: number) => `${(score * 100).toFixed(2)}%`
+
+// Абляція навчання: той самий набір запусків послідовно під кожним профілем (окремий eval з власними сесіями),
+// а потім таблиця балів профіль x категорія
+export async function runCurriculumBatch(
+  options: Omit<EvalOptions, 'curriculum' | 'resume'>,
+  profiles: CurriculumProfile[]
+) {
+  const evals: { profile: CurriculumProfile; evalId: string; breakdown: ScoreBreakdown; aborted?: string }[] = []
+  for (const [i, profile] of profiles.entries()) {
+    console.log(`\n=== Curriculum ${i + 1}/${profiles.length}: ${profile} ===`)
+    resetAgentCallStats()
+    const results = await runEval({ ...options, curriculum: profile })
+    if (results) evals.push({ profile, evalId: results.evalId, breakdown: results.breakdown, aborted: results.aborted })
+  }
+
+  const categories = [...new Set(evals.flatMap((e) => Object.keys(e.breakdown.categories)))]
+  const width = Math.max(12, ...profiles.map((p) => p.length)) + 2
+  const header = ['Curriculum'.padEnd(width), ...categories.map((c) => c.padStart(Math.max(c.length, 8))), '  evalId']
+  const rows = evals.map((e) =>
+    [
+      e.profile.padEnd(width),
+      ...categories.map((c) => {
+        const score = e.breakdown.categories[c]
+        return (score?.scored ? pct(score.score) : '-').padStart(Math.max(c.length, 8))
+      }),
+      `  ${e.evalId}${e.aborted ? ' (aborted)' : ''}`
+    ].join('  ')
+  )
+  console.log(`\nCurriculum ablation:\n${[header.join('  '), ...rows].join('\n')}`)
+}
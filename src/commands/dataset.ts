@@ -0,0 +1,100 @@
+import { type DatasetIssue, defaultLearningsPath, defaultRunsPath, validateDataset } from '../lib/dataset'
+import { familySpecSchema, generateRunFamily, verifyRunFamily } from '../lib/generate_runs'
+
+export interface DatasetValidateOptions {
+  runsPath?: string
+  learningsPath?: string
+  // Лише статичні перевірки, без запуску `idealMavkaCode`
+  static?: boolean
+}
+
+export interface DatasetGenerateOptions extends DatasetValidateOptions {
+  specPath: string
+  // Лише вивести згенеровані запуски, не змінюючи `runsPath`
+  dryRun?: boolean
+}
+
+async function readJson(path: string): Promise<unknown> {
+  const file = Bun.file(path)
+  if (!(await file.exists())) throw new Error(`File not found: ${path}`)
+  return file.json()
+}
+
+// `JSON.stringify` розгортає кожен масив, а `2_runs.json` відформатований biome -- інакше `biome check` падає
+async function formatJson(path: string) {
+  const proc = Bun.spawn(['bunx', 'biome', 'format', '--write', path], { stdout: 'ignore', stderr: 'pipe' })
+  if ((await proc.exited) === 0) return
+  const stderr = (await new Response(proc.stderr).text()).trim()
+  console.warn(`⚠️ Could not format ${path}, run \`bunx biome format --write ${path}\`${stderr ? `: ${stderr}` : ''}`)
+}
+
+const formatIssue = (issue: DatasetIssue) =>
+  `  ${issue.severity === 'error' ? '❌' : '⚠️'} ${issue.subject}: ${issue.message}`
+
+function printIssues(issues: DatasetIssue[]): { errors: number; warnings: number } {
+  const errors = issues.filter((i) => i.severity === 'error')
+  const warnings = issues.filter((i) => i.severity === 'warning')
+  if (errors.length) console.log(`\nErrors:\n${errors.map(formatIssue).join('\n')}`)
+  if (warnings.length) console.log(`\nWarnings:\n${warnings.map(formatIssue).join('\n')}`)
+  return { errors: errors.length, warnings: warnings.length }
+}
+
+// Перевіряє набір даних; повертає `false`, якщо знайдено помилки (попередження не рахуються)
+export async function runDatasetValidate(options: DatasetValidateOptions): Promise<boolean> {
+  const runsPath = options.runsPath ?? defaultRunsPath
+  const learningsPath = options.learningsPath ?? defaultLearningsPath
+  const rawRuns = await readJson(runsPath)
+  const rawLearnings = await readJson(learningsPath)
+
+  console.log(`Validating ${runsPath} and ${learningsPath}${options.static ? ' (static checks only)' : ''}`)
+  const issues = await validateDataset(rawRuns, rawLearnings, {
+    execute: !options.static,
+    onExecute: (subject, i, total) => console.log(`  [${i + 1}/${total}] Testing idealMavkaCode of ${subject}`)
+  })
+
+  const { errors, warnings } = printIssues(issues)
+  const runs = Array.isArray(rawRuns) ? rawRuns.length : 0
+  const learnings = Array.isArray(rawLearnings) ? rawLearnings.length : 0
+  console.log(`\n${errors ? '❌' : '✅'} ${runs} runs, ${learnings} learnings: ${errors} errors, ${warnings} warnings`)
+  return !errors
+}
+
+// Генерує родину запусків зі специфікації, перевіряє її та дописує в кінець `runsPath`; при помилках файл не змінюється
+export async function runDatasetGenerate(options: DatasetGenerateOptions): Promise<boolean> {
+  const runsPath = options.runsPath ?? defaultRunsPath
+  const learningsPath = options.learningsPath ?? defaultLearningsPath
+  const parsed = familySpecSchema.safeParse(await readJson(options.specPath))
+  if (!parsed.success)
+    throw new Error(
+      `Invalid spec ${options.specPath}: ${parsed.error.issues.map((i) => `${i.message} at ${i.path.join('.') || '<root>'}`).join('; ')}`
+    )
+  const rawRuns = await readJson(runsPath)
+  const rawLearnings = await readJson(learningsPath)
+  if (!Array.isArray(rawRuns) || !Array.isArray(rawLearnings))
+    throw new Error(`Expected arrays in ${runsPath} and ${learningsPath}`)
+
+  const family = await generateRunFamily(parsed.data)
+  console.log(
+    `Generated ${family.length} runs for algorithm ${parsed.data.number}${options.static ? ' (static checks only)' : ''}`
+  )
+  for (const run of family)
+    console.log(
+      `  ${run.uuid} [${run.algorithm.number}] ${run.type}${run.isConflicted ? ' conflicted' : ''}${run.isAfterFeedback ? ' second run' : ''}`
+    )
+
+  const issues = await verifyRunFamily(family, rawRuns, rawLearnings, {
+    execute: !options.static,
+    onExecute: (subject, i, total) => console.log(`  [${i + 1}/${total}] Testing code of ${subject}`)
+  })
+  const { errors, warnings } = printIssues(issues)
+
+  if (options.dryRun) console.log(`\n${JSON.stringify(family, null, 2)}`)
+  else if (!errors) {
+    await Bun.write(runsPath, `${JSON.stringify([...rawRuns, ...family], null, 2)}\n`)
+    await formatJson(runsPath)
+  }
+  console.log(
+    `\n${errors ? '❌' : '✅'} ${errors} errors, ${warnings} warnings${errors || options.dryRun ? `, ${runsPath} not changed` : `, appended to ${runsPath}`}`
+  )
+  return !errors
+}
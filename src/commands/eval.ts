@@ -0,0 +1,752 @@
+import { type Context, context, SpanStatusCode, trace } from '@opentelemetry/api'
+import { Listr } from 'listr2'
+import { nanoid } from 'nanoid'
+import runs from '../../2_runs.json'
+import { AgentUrl, concurrency, feedbackDiagnostics, repairRounds } from '../conf'
+import { analyzeMavkaCode, type Diagnostic, formatDiagnostic } from '../lib/analyze_mavka'
+import { AgentCallError, type AgentResponse, agentCallStats, CircuitOpenError, callAgent } from '../lib/call_agent'
+import {
+  blockingError,
+  type Checkpoint,
+  isConflictingLearned,
+  isFeedbackDelivered,
+  isRepairDone,
+  isRunComplete,
+  isTested,
+  needsFeedback,
+  needsRepair,
+  readCheckpoint,
+  writeCheckpoint
+} from '../lib/checkpoint'
+import { runComparator } from '../lib/comparators'
+import { buildCurriculum, type CurriculumItem, type CurriculumProfile, curriculumText } from '../lib/curriculum'
+import { type ExtractionInfo, extractCodeFromLLM } from '../lib/extract_llm_code'
+import { FeedbackCacheMissError } from '../lib/feedback_cache'
+import { feedbackProvider, generateFeedback } from '../lib/gen_feedback'
+import { buildReferenceIndex, gradeRunReferences } from '../lib/references'
+import { computeBreakdown, formatBreakdown } from '../lib/report'
+import {
+  type EvalResults,
+  type LearningRecord,
+  type RunRecord,
+  resultsVersion,
+  runRecordBase,
+  writeResults
+} from '../lib/results'
+import { formatOutcome, testMavkaCode } from '../lib/run_mavka'
+import { curriculumUid, sampleRuns, withDerivedUids } from '../lib/sampling'
+import { buildChains } from '../lib/scheduler'
+import { parseTestCases } from '../lib/test_cases'
+import type { TestResult } from '../lib/types'
+import { ProgressTracker, withSpan } from '../lib/utils'
+
+type Run = (typeof runs)[0]
+
+// --- Learning Phase ---
+
+async function processLearning(
+  learning: CurriculumItem,
+  index: number,
+  total: number
+): Promise<{ success: boolean; ms?: number; error?: string }> {
+  try {
+    const ms = await withSpan(
+      `Learning ${index + 1}/${total} [${learning.file}]`,
+      {
+        'openinference.span.kind': 'LLM',
+        'metadata.learning_index': index + 1,
+        'metadata.learning_total': total,
+        'metadata.file_path': learning.file,
+        'metadata.uid': learning.uid
+      },
+      async (span) => {
+        const file = await curriculumText(learning)
+        span.setAttribute('llm.input_messages.0.message.role', 'user')
+        span.setAttribute('llm.input_messages.0.message.content', file)
+        const result = await callAgent(file, learning.uid)
+        span.setAttribute('llm.output_messages.0.message.role', 'assistant')
+        span.setAttribute('llm.output_messages.0.message.content', result.response)
+        if (result.references?.length) span.setAttribute('metadata.references', JSON.stringify(result.references))
+        if (result.reasoning) span.setAttribute('metadata.reasoning', result.reasoning)
+        return result.ms
+      }
+    )
+    return { success: true, ms }
+  } catch (error) {
+    if (error instanceof AgentCallError) return { success: false, error: error.message }
+    throw error
+  }
+}
+
+// --- Testing Phase ---
+
+async function learnConflictingAlgorithm(
+  run: Run,
+  parentCtx: Context
+): Promise<{ success: boolean; ms?: number; error?: string }> {
+  if (run.algorithm.number <= 100)
+    throw new Error(`Conflicting algorithm must have number > 100, got ${run.algorithm.number}`)
+  if (!run.uuidConflictingDocs) throw new Error(`Missing uuidConflictingDocs for run ${run.algorithm.number}`)
+
+  try {
+    const ms = await withSpan(
+      'Learning Conflicting Algorithm',
+      { 'openinference.span.kind': 'LLM' },
+      async (span) => {
+        const paddedNumber = String(run.algorithm.number).padStart(3, '0')
+        const glob = new Bun.Glob(`1_learning/2_algorithms/${paddedNumber}_*`)
+        const files = await Array.fromAsync(glob.scan('.'))
+        if (files.length !== 1)
+          throw new Error(`Expected exactly one file for algorithm ${run.algorithm.number}, found ${files.length}`)
+        const algorithmFile = files[0]!
+        const algorithmText = await Bun.file(algorithmFile).text()
+        if (!algorithmText) throw new Error(`Algorithm file ${algorithmFile} is empty`)
+
+        span.setAttribute('metadata.algorithm_file', algorithmFile)
+        span.setAttribute('llm.input_messages.0.message.role', 'user')
+        span.setAttribute('llm.input_messages.0.message.content', algorithmText)
+        const result = await callAgent(algorithmText, run.uuidConflictingDocs!)
+        span.setAttribute('llm.output_messages.0.message.role', 'assistant')
+        span.setAttribute('llm.output_messages.0.message.content', result.response)
+        if (result.references?.length) span.setAttribute('metadata.references', JSON.stringify(result.references))
+        if (result.reasoning) span.setAttribute('metadata.reasoning', result.reasoning)
+        return result.ms
+      },
+      parentCtx
+    )
+    return { success: true, ms }
+  } catch (error) {
+    if (error instanceof AgentCallError) return { success: false, error: error.message }
+    throw error
+  }
+}
+
+type CallAgentAndTestResult =
+  | ({
+      success: true
+      code: string
+      extraction: ExtractionInfo
+      diagnostics: Diagnostic[]
+      testResults: TestResult[]
+      score: number
+    } & AgentResponse)
+  | { success: false; error: string }
+
+async function callAgentAndTest(
+  run: Run,
+  prompt: string,
+  parentCtx: Context,
+  spanName = 'Agent Call'
+): Promise<CallAgentAndTestResult> {
+  try {
+    const result = await withSpan(
+      spanName,
+      {
+        'openinference.span.kind': 'LLM',
+        'llm.input_messages.0.message.role': 'user',
+        'llm.input_messages.0.message.content': prompt
+      },
+      async (llmSpan) => {
+        if (!run.uuid) throw new Error(`Missing uuid for run ${run.algorithm.number}`)
+        const agentResult = await callAgent(prompt, run.uuid)
+        const { code, ...extraction } = extractCodeFromLLM(agentResult.response)
+
+        llmSpan.setAttribute('llm.output_messages.0.message.role', 'assistant')
+        llmSpan.setAttribute('llm.output_messages.0.message.content', agentResult.response)
+        llmSpan.setAttribute('output.extracted_code', code)
+        llmSpan.setAttribute('metadata.extraction', JSON.stringify(extraction))
+        if (agentResult.references?.length)
+          llmSpan.setAttribute('metadata.references', JSON.stringify(agentResult.references))
+        if (agentResult.reasoning) llmSpan.setAttribute('metadata.reasoning', agentResult.reasoning)
+
+        const diagnostics = analyzeMavkaCode(code)
+        const llmContext = trace.setSpan(context.active(), llmSpan)
+        const testResults = await withSpan(
+          'Testing',
+          {
+            'openinference.span.kind': 'EVALUATOR',
+            'input.value': code,
+            'metadata.test_cases_count': parseTestCases(run.private.testCases).length,
+            'metadata.diagnostics': JSON.stringify(diagnostics)
+          },
+          async (testSpan) => {
+            const results = await testMavkaCode(code, run.private.testCases, runComparator(run))
+            const score = results.filter((r) => r.passed).length / results.length
+            const formatted = results
+              .map(
+                (r, i) =>
+                  `Test ${i + 1}: ${formatOutcome(r)} (${r.comparator})\n  Input: ${r.input}\n  Expected: ${r.expected}\n  Got: ${r.actual}`
+              )
+              .join('\n\n')
+            const analysis = diagnostics.length
+              ? `\n\nStatic analysis:\n${diagnostics.map(formatDiagnostic).join('\n')}`
+              : ''
+            const output = `Score: ${(score * 100).toFixed(0)}% (${results.filter((r) => r.passed).length}/${results.length} tests passed)\n\n${formatted}${analysis}`
+            testSpan.setAttribute('output.value', output)
+            testSpan.setAttribute('llm.output_messages.0.message.role', 'human')
+            testSpan.setAttribute('llm.output_messages.0.message.content', output)
+            testSpan.setAttribute('metadata.score', score)
+            return results
+          },
+          llmContext
+        )
+        const score = testResults.filter((r) => r.passed).length / testResults.length
+        return { ...agentResult, code, extraction, diagnostics, testResults, score }
+      },
+      parentCtx
+    )
+    return { success: true, ...result }
+  } catch (error) {
+    if (error instanceof AgentCallError) return { success: false, error: error.message }
+    throw error
+  }
+}
+
+async function deliverFeedback(
+  run: Run,
+  code: string,
+  testResults: TestResult[],
+  diagnostics: Diagnostic[] | undefined,
+  parentCtx: Context
+): Promise<{
+  success: boolean
+  provider: string
+  cache?: 'hit' | 'miss' | 'off'
+  ms?: number
+  error?: string
+  feedback?: string
+  message?: string
+  response?: string
+}> {
+  if (!run.private.algorithmPlain) throw new Error(`Missing algorithmPlain for run ${run.algorithm.number}`)
+  if (!run.private.idealMavkaCode) throw new Error(`Missing idealMavkaCode for run ${run.algorithm.number}`)
+  if (!run.uuidFeedback) throw new Error(`Missing uuidFeedback for run ${run.algorithm.number}`)
+
+  let feedback: string | undefined
+  let message: string | undefined
+  let cache: 'hit' | 'miss' | 'off' | undefined
+  const provider = feedbackProvider()
+  let source = provider.name
+  try {
+    const result = await withSpan(
+      'Feedback',
+      {
+        'openinference.span.kind': 'LLM',
+        'metadata.feedback_provider': provider.name,
+        'metadata.algorithm': run.private.algorithmPlain,
+        'metadata.user_code': code,
+        'metadata.ideal_code': run.private.idealMavkaCode
+      },
+      async (span) => {
+        const generated = await generateFeedback(provider, {
+          algorithmText: run.private.algorithmPlain!,
+          userImplementation: code,
+          testResults,
+          expectedImplementation: run.private.idealMavkaCode!,
+          diagnostics: feedbackDiagnostics ? (diagnostics ?? analyzeMavkaCode(code)) : undefined
+        })
+        feedback = generated.text
+        cache = generated.cache
+        source = generated.provider
+        span.setAttribute('metadata.feedback_cache', cache)
+        const feedbackMsg = `Раніше вам було поставлено завдання реалізувати ${run.algorithm.name} мовою програмування Мавка.
+
+Ваш код:
+\`\`\`mavka
+${code}
+\`\`\`
+
+Нижче наведено експертний відгук щодо вашої реалізації:
+
+${feedback}`
+        span.setAttribute('llm.input_messages.0.message.role', 'user')
+        span.setAttribute('llm.input_messages.0.message.content', feedbackMsg)
+        message = feedbackMsg
+        const result = await callAgent(feedbackMsg, run.uuidFeedback!)
+        span.setAttribute('llm.output_messages.0.message.role', 'assistant')
+        span.setAttribute('llm.output_messages.0.message.content', result.response)
+        if (result.references?.length) span.setAttribute('metadata.references', JSON.stringify(result.references))
+        if (result.reasoning) span.setAttribute('metadata.reasoning', result.reasoning)
+        return result
+      },
+      parentCtx
+    )
+    return { success: true, provider: source, cache, ms: result.ms, feedback, message, response: result.response }
+  } catch (error) {
+    if (error instanceof AgentCallError || error instanceof FeedbackCacheMissError)
+      return { success: false, provider: source, cache, error: error.message, feedback, message }
+    throw error
+  }
+}
+
+interface RunContext {
+  learnings: LearningRecord[]
+  runs: RunRecord[]
+}
+
+function constructPrompt(run: Run): string {
+  if (run.type === 'implement') {
+    return `Напишіть код на мові програмування Мавка, який реалізовує ${run.algorithm.name}.
+
+Код повинен реалізовувати єдину функцію з назвою "алгоритм" -- без будь-яких інших інструкцій (як-от друк)
+
+Відповіддю має бути єдине повідомлення у форматі:
+\`\`\`mavka
+<ваш код тут>
+\`\`\` без зайвих пояснень.
+`
+  }
+
+  if (!run.mavkaCodeToReview) {
+    throw new Error(`Missing mavkaCodeToReview for review run of algorithm ${run.algorithm.number}`)
+  }
+
+  return `Перегляньте потенційну реалізацію ${run.algorithm.name} мовою програмування Мавка.
+
+Код повинен реалізовувати єдину функцію з назвою "алгоритм" -- без будь-яких інших інструкцій (як-от друк)
+
+Код, що має реалізовувати цей алгоритм:
+\`\`\`mavka
+${run.mavkaCodeToReview}
+\`\`\`
+
+Ваше завдання: виправити будь-які помилки (якщо вони є) та вивести тільки фінальний код, що реалізує цей алгоритм мовою Мавка.
+
+Відповіддю має бути єдине повідомлення у форматі:
+\`\`\`mavka
+<ваш код тут>
+\`\`\`
+
+без зайвих пояснень`
+}
+
+const repairOutcomes: Record<Exclude<TestResult['outcome'], 'passed' | 'failed'>, string> = {
+  crash: 'Помилка виконання',
+  timeout: 'Програма не завершилась вчасно',
+  'output-limit': 'Програма вивела забагато даних'
+}
+
+// Провалені тести попередньої спроби (вхід та що отримано, без очікуваного результату)
+function constructRepairPrompt(testResults: TestResult[]): string {
+  const failed = testResults.filter((t) => !t.passed)
+  const failures = failed
+    .map((t) => {
+      const label = t.outcome === 'passed' || t.outcome === 'failed' ? 'Отримано' : repairOutcomes[t.outcome]
+      const actual = (t.outcome === 'crash' ? t.actual.replace(/^ERROR:\s*/, '') : t.actual).trim()
+      const got = actual ? `${label}: ${actual}` : label
+      return `Вхід: ${t.input}\n${got}`
+    })
+    .join('\n\n')
+
+  return `Ваш код пройшов ${testResults.length - failed.length} з ${testResults.length} тестів. Тести, що не пройшли:
+
+${failures}
+
+Виправте код. Код повинен реалізовувати єдину функцію з назвою "алгоритм" -- без будь-яких інших інструкцій (як-от друк)
+
+Відповіддю має бути єдине повідомлення у форматі:
+\`\`\`mavka
+<ваш код тут>
+\`\`\` без зайвих пояснень.
+`
+}
+
+// --- Main ---
+
+export interface EvalOptions {
+  // Запуски для тестування (див. `selectRuns`); порожній список -- лише навчання
+  runs: Run[]
+  // Етап навчання документації (`--skip-learning` вимикає)
+  learning: boolean
+  // evalId перерваного eval, який слід продовжити
+  resume?: string
+  // Скільки разів виконати кожен запуск (див. `sampleRuns`), за замовчуванням 1
+  samples?: number
+  // Профіль навчання (див. `curriculumProfiles`), за замовчуванням `full`
+  curriculum?: CurriculumProfile
+}
+
+// Повертає результати eval (без них -- лише навчання)
+export async function runEval(options: EvalOptions): Promise<EvalResults | undefined> {
+  // Продовження перерваного eval: вже виконані кроки пропускаються
+  const checkpoint: Checkpoint | undefined = options.resume ? await readCheckpoint(options.resume) : undefined
+
+  // Профіль навчання перерваного eval не змінюється (від нього залежать uid усіх сесій)
+  if (checkpoint && options.curriculum && options.curriculum !== (checkpoint.curriculum ?? 'full'))
+    throw new Error(
+      `Eval ${checkpoint.evalId} was started with curriculum ${checkpoint.curriculum ?? 'full'}, not ${options.curriculum}`
+    )
+  const profile = checkpoint ? (checkpoint.curriculum ?? 'full') : (options.curriculum ?? 'full')
+  const curriculum = profile === 'full' ? undefined : profile
+  const curriculumItems = buildCurriculum(profile)
+  const referenceIndex = buildReferenceIndex(profile)
+
+  const evalId = checkpoint?.evalId ?? nanoid()
+  const startedAt = checkpoint?.startedAt ?? new Date().toISOString()
+  console.log(
+    `${checkpoint ? 'Runner resumed' : 'Runner started'} (evalId: ${evalId}${curriculum ? `, curriculum: ${curriculum}` : ''})`
+  )
+
+  const timings = checkpoint?.timings ?? { learn: [] as number[], task: [] as number[] }
+
+  // Без етапу навчання зберігаємо вже наявні в контрольній точці записи навчання
+  const ctx: RunContext = { learnings: options.learning ? [] : (checkpoint?.learnings ?? []), runs: [] }
+  // Ланцюжки виконуються паралельно, тож записи контрольної точки йдуть по черзі
+  let checkpointWrite = Promise.resolve()
+  const saveCheckpoint = () => {
+    checkpointWrite = checkpointWrite.then(() =>
+      writeCheckpoint({
+        version: resultsVersion,
+        evalId,
+        startedAt,
+        curriculum,
+        timings,
+        learnings: ctx.learnings,
+        runs: ctx.runs
+      })
+    )
+    return checkpointWrite
+  }
+
+  const completedLearnings = new Map(checkpoint?.learnings.filter((l) => l.success).map((l) => [l.uid, l]))
+  const resumedRuns = new Map(checkpoint?.runs.map((r) => [r.uuid, r]))
+
+  const samples = options.samples ?? 1
+  // Профіль навчання має власні сесії агента й для запусків
+  const sampled = sampleRuns(options.runs, samples).map((s) => ({
+    ...s,
+    run: curriculum ? withDerivedUids(s.run, (uid) => curriculumUid(uid, curriculum)) : s.run
+  }))
+  const testRuns = sampled.map((s) => s.run)
+  const sampleOf = new Map(sampled.map((s) => [s.run, s.sample]))
+  const sampleLabel = (run: Run) => (samples > 1 ? ` #${(sampleOf.get(run) ?? 0) + 1}` : '')
+
+  // Записи створюються заздалегідь у порядку `2_runs.json` (спроба за спробою), хоч ланцюжки й завершуються
+  // в довільному порядку
+  for (const { run, original, sample } of sampled) {
+    const resumed = resumedRuns.get(run.uuid)
+    const record = resumed ? { ...resumed, error: undefined } : runRecordBase(run, runs.indexOf(original))
+    if (samples > 1) record.sample = sample
+    ctx.runs.push(record)
+  }
+
+  // Один запуск: навчання конфліктному алгоритму -> виклик агента й тестування -> фідбек.
+  // Незавершений запуск продовжується з першого невиконаного етапу
+  async function processRun(run: Run, record: RunRecord, updateStatus: (status: string, timing?: string) => void) {
+    const i = testRuns.indexOf(run)
+    const runName = `Test ${i + 1}/${testRuns.length} [${run.algorithm.number}]${run.isAfterFeedback ? ' second run' : ''}${sampleLabel(run)}`
+
+    if (isRunComplete(record)) {
+      updateStatus(`⏭️ ${((record.score ?? 0) * 100).toFixed(0)}%`)
+      return
+    }
+
+    // Другий запуск можливий лише після того, як перший (з того ж ланцюжка) пройшов усі етапи, зокрема фідбек
+    const firstRun = ctx.runs.find((r) => r.uuidFeedback === run.uuid)
+    if (run.isAfterFeedback && firstRun && !isRunComplete(firstRun)) {
+      record.error = blockingError(firstRun)
+      updateStatus(`❌ ${record.error}`)
+      await saveCheckpoint()
+      return
+    }
+
+    const runStart = performance.now()
+
+    try {
+      await withSpan(
+        runName,
+        {
+          'openinference.span.kind': 'CHAIN',
+          'metadata.eval_id': evalId,
+          'metadata.runner_mode': 'full',
+          'metadata.curriculum': profile,
+          'metadata.algorithm_number': run.algorithm.number,
+          'metadata.algorithm_name': run.algorithm.name,
+          'metadata.run_type': run.type,
+          'metadata.uuid': run.uuid,
+          'metadata.is_conflicted': run.isConflicted,
+          'metadata.is_after_feedback': run.isAfterFeedback,
+          'metadata.sample': record.sample ?? 0
+        },
+        async (parentSpan) => {
+          const parentCtx = trace.setSpan(context.active(), parentSpan)
+
+          // Learn conflicting algorithm if needed
+          if (run.isConflicted && !run.isAfterFeedback && !isConflictingLearned(record)) {
+            updateStatus('📚 learning')
+            const learnResult = await learnConflictingAlgorithm(run, parentCtx)
+            if (learnResult.ms) timings.learn.push(learnResult.ms)
+            record.timings.conflictingLearnMs = learnResult.ms
+            await saveCheckpoint()
+            if (!learnResult.success) {
+              record.error = learnResult.error
+              updateStatus(`❌ ${learnResult.error}`)
+              parentSpan.setStatus({ code: SpanStatusCode.ERROR, message: learnResult.error })
+              return
+            }
+            updateStatus('📚', `(${learnResult.ms}ms)`)
+          }
+
+          // Call agent and test
+          if (!isTested(record)) {
+            updateStatus(run.type === 'implement' ? '🤖 implementing' : '🤖 reviewing')
+            const prompt = constructPrompt(run)
+            record.prompt = prompt
+
+            updateStatus('🏃🏻‍♀️‍➡️ running')
+            const agentResult = await callAgentAndTest(run, prompt, parentCtx)
+
+            if (!agentResult.success) {
+              record.error = agentResult.error
+              updateStatus(`❌ ${agentResult.error}`)
+              parentSpan.setStatus({ code: SpanStatusCode.ERROR, message: agentResult.error })
+              return
+            }
+
+            Object.assign(record, {
+              response: agentResult.response,
+              references: agentResult.references,
+              referenceGrade: gradeRunReferences(agentResult.references, run, referenceIndex),
+              reasoning: agentResult.reasoning,
+              code: agentResult.code,
+              extraction: agentResult.extraction,
+              diagnostics: agentResult.diagnostics,
+              testResults: agentResult.testResults,
+              score: agentResult.score
+            })
+            record.timings.agentMs = agentResult.ms
+            if (agentResult.ttftMs !== undefined) record.timings.agentTtftMs = agentResult.ttftMs
+            timings.task.push(agentResult.ms)
+            await saveCheckpoint()
+          }
+
+          const score = record.score ?? 0
+          const ms = record.timings.agentMs
+          parentSpan.setAttribute('metadata.score', score)
+          updateStatus(`✅ ${(score * 100).toFixed(0)}%`, `(${ms}ms)`)
+
+          // Repair rounds if needed (continues from the last saved round on resume)
+          if (needsRepair(record) && !isRepairDone(record)) {
+            const repair = record.repair ?? { rounds: [] }
+            record.repair = repair
+            repair.error = undefined
+            while (repair.solvedRound === undefined && repair.rounds.length < repairRounds) {
+              const round = repair.rounds.length + 1
+              updateStatus(`🔧 repairing ${round}/${repairRounds}`)
+              const prompt = constructRepairPrompt((repair.rounds.at(-1) ?? record).testResults)
+              const roundResult = await callAgentAndTest(run, prompt, parentCtx, `Repair Round ${round}`)
+              if (!roundResult.success) {
+                repair.error = roundResult.error
+                break
+              }
+              repair.rounds.push({
+                prompt,
+                response: roundResult.response,
+                code: roundResult.code,
+                extraction: roundResult.extraction,
+                diagnostics: roundResult.diagnostics,
+                testResults: roundResult.testResults,
+                score: roundResult.score,
+                ms: roundResult.ms
+              })
+              if (roundResult.score === 1) repair.solvedRound = round
+              record.timings.repairMs = (record.timings.repairMs ?? 0) + roundResult.ms
+              await saveCheckpoint()
+            }
+            await saveCheckpoint()
+            parentSpan.setAttribute('metadata.repair_rounds', repair.rounds.length)
+            if (repair.solvedRound !== undefined)
+              parentSpan.setAttribute('metadata.repair_solved_round', repair.solvedRound)
+            if (repair.error) {
+              updateStatus(`❌ ${repair.error}`)
+              parentSpan.setStatus({ code: SpanStatusCode.ERROR, message: repair.error })
+              return
+            }
+          }
+          const lastRound = record.repair?.rounds.at(-1)
+          if (lastRound)
+            updateStatus(
+              `✅ ${(score * 100).toFixed(0)}% → ${(lastRound.score * 100).toFixed(0)}%`,
+              `(${ms}ms) +${record.repair?.rounds.length} repair rounds`
+            )
+
+          // Deliver feedback if needed
+          if (needsFeedback(record) && !isFeedbackDelivered(record)) {
+            updateStatus('💬 reviewing')
+            const feedbackResult = await deliverFeedback(
+              run,
+              record.code ?? '',
+              record.testResults,
+              record.diagnostics,
+              parentCtx
+            )
+            if (feedbackResult.ms) timings.learn.push(feedbackResult.ms)
+            record.feedback = {
+              provider: feedbackResult.provider,
+              cache: feedbackResult.cache,
+              text: feedbackResult.feedback,
+              message: feedbackResult.message,
+              response: feedbackResult.response,
+              ms: feedbackResult.ms,
+              error: feedbackResult.error
+            }
+            record.timings.feedbackMs = feedbackResult.ms
+            await saveCheckpoint()
+            if (!feedbackResult.success) {
+              updateStatus(`❌ ${feedbackResult.error}`)
+              parentSpan.setStatus({ code: SpanStatusCode.ERROR, message: feedbackResult.error })
+              return
+            }
+            updateStatus(`✅ ${(score * 100).toFixed(0)}%`, `(${ms}ms) +fb(${feedbackResult.ms}ms)`)
+          }
+
+          if (score === 0) parentSpan.setStatus({ code: SpanStatusCode.ERROR, message: 'Score is 0' })
+        }
+      )
+    } catch (error) {
+      if (error instanceof CircuitOpenError) record.error = error.message
+      throw error
+    } finally {
+      record.timings.totalMs += Math.round(performance.now() - runStart)
+      await saveCheckpoint()
+    }
+  }
+
+  const tasks = new Listr<RunContext>([
+    {
+      title: 'Learning',
+      skip: !options.learning && 'Learning skipped',
+      task: async (ctx, task) => {
+        const total = curriculumItems.length
+        const progress = new ProgressTracker()
+
+        for (let i = 0; i < total; i++) {
+          const learning = curriculumItems[i]
+          if (!learning) throw new Error(`Learning at index ${i} is undefined`)
+
+          task.title = `Learning [${i + 1}/${total}]`
+          progress.add(learning.file)
+          task.output = progress.format()
+
+          const completed = completedLearnings.get(learning.uid)
+          if (completed) {
+            ctx.learnings.push(completed)
+            progress.updateLast('⏭️')
+            task.output = progress.format()
+            continue
+          }
+
+          const result = await processLearning(learning, i, total)
+          if (result.ms) timings.learn.push(result.ms)
+          ctx.learnings.push({ file: learning.file, uid: learning.uid, ...result })
+          await saveCheckpoint()
+
+          progress.updateLast(result.success ? '✅' : `❌ ${result.error}`)
+          if (result.ms) progress.setTiming(`(${result.ms}ms)`)
+          task.output = progress.format()
+        }
+
+        task.title = `Learning [${total}/${total}] - Complete`
+      }
+    },
+    {
+      title: 'Testing',
+      enabled: options.runs.length > 0,
+      task: (ctx, task) => {
+        const total = testRuns.length
+        const chains = buildChains(testRuns)
+        let finished = 0
+        task.title = `Running tests [0/${total}] (${chains.length} chains, concurrency ${concurrency})`
+
+        // Кожен ланцюжок -- окремий рядок Listr з кількома останніми запусками; ланцюжки виконуються паралельно
+        return task.newListr(
+          chains.map((chain) => {
+            const title = `Algorithms ${[...new Set(chain.map((r) => r.algorithm.number))].join(', ')}${[...new Set(chain.map(sampleLabel))].join('')}`
+            return {
+              title,
+              task: async (_, chainTask) => {
+                const progress = new ProgressTracker(chain.length)
+                for (const run of chain) {
+                  const record = ctx.runs.find((r) => r.uuid === run.uuid)
+                  if (!record) throw new Error(`Missing record for run ${run.uuid}`)
+
+                  progress.add(`${run.algorithm.number} ${run.type}${run.isAfterFeedback ? ' second run' : ''}`)
+                  const updateStatus = (status: string, timing?: string) => {
+                    progress.updateLast(status)
+                    if (timing) progress.setTiming(timing)
+                    chainTask.output = progress.format()
+                  }
+                  updateStatus('⏳')
+                  await processRun(run, record, updateStatus)
+
+                  task.title = `Running tests [${++finished}/${total}]`
+                }
+
+                // Завершений ланцюжок згортається в один рядок з балами його запусків
+                const records = chain.map((run) => ctx.runs.find((r) => r.uuid === run.uuid))
+                chainTask.title = `${title}: ${records.map((r) => (r?.error !== undefined ? '❌' : `${((r?.score ?? 0) * 100).toFixed(0)}%`)).join(' → ')}`
+                if (finished === total) {
+                  const avgScore = computeBreakdown(ctx.runs).categories.overall?.score ?? 0
+                  task.title = `Running tests [${total}/${total}] - Complete (Score: ${(avgScore * 100).toFixed(2)}%)`
+                }
+              }
+            }
+          }),
+          { concurrent: concurrency, exitOnError: true }
+        )
+      }
+    }
+  ])
+
+  let aborted: string | undefined
+  try {
+    await tasks.run(ctx)
+  } catch (error) {
+    // Агент недоступний -- зберігаємо часткові результати (eval можна продовжити через `--resume`)
+    if (!(error instanceof CircuitOpenError)) throw error
+    aborted = error.message
+  }
+
+  // Лише навчання (`learn`): результатів немає, але контрольна точка дозволяє продовжити з тестуванням
+  if (!options.runs.length) {
+    const failed = ctx.learnings.filter((l) => !l.success).length
+    console.log(aborted ? `\nLearning aborted: ${aborted}` : `\nLearning finished! (${failed} failed)`)
+    console.log(`Continue with: bun src/index.ts eval --resume ${evalId}`)
+    return undefined
+  }
+
+  const avg = (arr: number[]) => (arr.length ? Math.round(arr.reduce((a, b) => a + b, 0) / arr.length) : 0)
+  const breakdown = computeBreakdown(ctx.runs)
+  const avgScore = breakdown.categories.overall?.score ?? 0
+  console.log(aborted ? `\nRunner aborted: ${aborted}` : `\nRunner finished!`)
+  console.log(`Final score: ${(avgScore * 100).toFixed(2)}%`)
+  const ttft = ctx.runs.flatMap((r) => (r.timings.agentTtftMs !== undefined ? [r.timings.agentTtftMs] : []))
+  console.log(
+    `Average time: learn=${avg(timings.learn)}ms, task=${avg(timings.task)}ms${ttft.length ? `, first token=${avg(ttft)}ms` : ''}`
+  )
+  console.log(
+    `Agent calls: ${agentCallStats.calls} calls, ${agentCallStats.attempts} attempts (${agentCallStats.retries} retries), ${agentCallStats.failedCalls} failed`
+  )
+  console.log(`\n${formatBreakdown(breakdown)}\n`)
+
+  const results: EvalResults = {
+    version: resultsVersion,
+    evalId,
+    mode: 'full',
+    curriculum,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    agentUrl: AgentUrl,
+    score: avgScore,
+    breakdown,
+    timings,
+    agentCalls: agentCallStats,
+    aborted,
+    learnings: ctx.learnings,
+    runs: ctx.runs
+  }
+  const files = await writeResults(results)
+  console.log(`Results: ${files.json}, ${files.junit}, ${files.html}`)
+  if (aborted) console.log(`Resume with: bun src/index.ts eval --resume ${evalId}`)
+  return results
+}
@@ -0,0 +1,213 @@
+import { context, SpanStatusCode, trace } from '@opentelemetry/api'
+import { nanoid } from 'nanoid'
+import PQueue from 'p-queue'
+import runs from '../../2_runs.json'
+import { AgentUrl, concurrency, tracer } from '../conf'
+import { analyzeMavkaCode, formatDiagnostic } from '../lib/analyze_mavka'
+import { AgentCallError, agentCallStats, CircuitOpenError, callAgent } from '../lib/call_agent'
+import { runComparator } from '../lib/comparators'
+import { extractCodeFromLLM } from '../lib/extract_llm_code'
+import { buildReferenceIndex, gradeRunReferences } from '../lib/references'
+import { computeBreakdown, formatBreakdown } from '../lib/report'
+import { type RunRecord, resultsVersion, runRecordBase, writeResults } from '../lib/results'
+import { formatOutcome, testMavkaCode } from '../lib/run_mavka'
+import { sampleRuns } from '../lib/sampling'
+import { parseTestCases } from '../lib/test_cases'
+
+type Run = (typeof runs)[0]
+
+// Швидка перевірка без етапу навчання: агент отримує детальний опис алгоритму, але не документацію Мавки
+// `samples` -- скільки разів виконати кожен запуск (див. `sampleRuns`)
+export async function runQuickTest(selected: Run[], samples = 1) {
+  const queue = new PQueue({ concurrency })
+  const referenceIndex = buildReferenceIndex()
+
+  const evalId = nanoid()
+  const startedAt = new Date().toISOString()
+  console.log(`Test runner started (evalId: ${evalId})`)
+
+  const records: RunRecord[] = []
+  const taskTimings: number[] = []
+  let aborted: string | undefined
+  const sampled = sampleRuns(selected, samples)
+  const total = sampled.length
+
+  for (const [i, { run, original, sample }] of sampled.entries()) {
+    const record = runRecordBase(run, runs.indexOf(original))
+    if (samples > 1) record.sample = sample
+    records.push(record)
+
+    queue.add(async () => {
+      const runStart = performance.now()
+      const runName = `Test ${i + 1}/${total} [${run.algorithm.number}]${run.isAfterFeedback ? ' second run' : ''}${samples > 1 ? ` #${sample + 1}` : ''}`
+      await tracer.startActiveSpan(runName, async (parentSpan) => {
+        try {
+          // Set parent span metadata
+          parentSpan.setAttribute('openinference.span.kind', 'CHAIN')
+          parentSpan.setAttribute('metadata.eval_id', evalId)
+          parentSpan.setAttribute('metadata.runner_mode', 'test')
+          parentSpan.setAttribute('metadata.algorithm_number', run.algorithm.number)
+          parentSpan.setAttribute('metadata.algorithm_name', run.algorithm.name)
+          parentSpan.setAttribute('metadata.run_type', run.type)
+          parentSpan.setAttribute('metadata.uuid', run.uuid)
+          parentSpan.setAttribute('metadata.is_conflicted', run.isConflicted)
+          parentSpan.setAttribute('metadata.is_after_feedback', run.isAfterFeedback)
+
+          const parentContext = trace.setSpan(context.active(), parentSpan)
+
+          const prompt = `Реалізуй наведений нижче алгоритм мовою програмування Мавка\n\n${run.private.algorithmPlain}\n\n\n\nКод повинен реалізовувати єдину функцію з назвою "алгоритм" -- без будь-яких інших інструкцій (як-от друк)\n\n\nВідповіддю має бути єдине повідомлення у форматі:\n\`\`\`mavka\n<ваш код тут>\n\`\`\` без зайвих пояснень`
+          record.prompt = prompt
+
+          let output!: string
+          let code!: string
+          let score!: number
+
+          // Agent Call span (with Testing nested inside)
+          await context.with(parentContext, async () => {
+            await tracer.startActiveSpan('Agent Call', async (llmSpan) => {
+              try {
+                llmSpan.setAttribute('openinference.span.kind', 'LLM')
+                llmSpan.setAttribute('llm.input_messages.0.message.role', 'user')
+                llmSpan.setAttribute('llm.input_messages.0.message.content', prompt)
+
+                const agentResult = await callAgent(prompt, run.uuid)
+                output = agentResult.response
+                const { code: extracted, ...extraction } = extractCodeFromLLM(output)
+                code = extracted
+                Object.assign(record, {
+                  response: output,
+                  references: agentResult.references,
+                  referenceGrade: gradeRunReferences(agentResult.references, run, referenceIndex),
+                  reasoning: agentResult.reasoning,
+                  code,
+                  extraction
+                })
+                record.timings.agentMs = agentResult.ms
+                if (agentResult.ttftMs !== undefined) record.timings.agentTtftMs = agentResult.ttftMs
+                taskTimings.push(agentResult.ms)
+
+                llmSpan.setAttribute('llm.output_messages.0.message.role', 'assistant')
+                llmSpan.setAttribute('llm.output_messages.0.message.content', output)
+                llmSpan.setAttribute('output.extracted_code', code)
+                llmSpan.setAttribute('metadata.extraction', JSON.stringify(extraction))
+                if (agentResult.references?.length) {
+                  llmSpan.setAttribute('metadata.references', JSON.stringify(agentResult.references))
+                }
+                if (agentResult.reasoning) {
+                  llmSpan.setAttribute('metadata.reasoning', agentResult.reasoning)
+                }
+
+                // Testing span (nested inside LLM Call)
+                const diagnostics = analyzeMavkaCode(code)
+                record.diagnostics = diagnostics
+
+                const llmContext = trace.setSpan(context.active(), llmSpan)
+                await context.with(llmContext, async () => {
+                  await tracer.startActiveSpan('Testing', async (testSpan) => {
+                    try {
+                      testSpan.setAttribute('openinference.span.kind', 'EVALUATOR')
+                      testSpan.setAttribute('input.value', code)
+                      testSpan.setAttribute('metadata.test_cases_count', parseTestCases(run.private.testCases).length)
+                      testSpan.setAttribute('metadata.diagnostics', JSON.stringify(diagnostics))
+
+                      const testResults = await testMavkaCode(code, run.private.testCases, runComparator(run))
+                      score = testResults.filter((el) => el.passed).length / testResults.length
+                      record.testResults = testResults
+
+                      // Format test results as human-readable output for Arize
+                      const formattedResults = testResults
+                        .map(
+                          (r, idx) =>
+                            `Test ${idx + 1}: ${formatOutcome(r)} (${r.comparator})\n` +
+                            `  Input: ${r.input}\n` +
+                            `  Expected: ${r.expected}\n` +
+                            `  Got: ${r.actual}`
+                        )
+                        .join('\n\n')
+                      const analysis = diagnostics.length
+                        ? `\n\nStatic analysis:\n${diagnostics.map(formatDiagnostic).join('\n')}`
+                        : ''
+
+                      const outputContent = `Score: ${(score * 100).toFixed(0)}% (${testResults.filter((el) => el.passed).length}/${testResults.length} tests passed)\n\n${formattedResults}${analysis}`
+                      testSpan.setAttribute('output.value', outputContent)
+                      testSpan.setAttribute('llm.output_messages.0.message.role', 'human')
+                      testSpan.setAttribute('llm.output_messages.0.message.content', outputContent)
+                      testSpan.setAttribute('metadata.score', score)
+
+                      testSpan.setStatus({ code: SpanStatusCode.OK })
+                      testSpan.end()
+                    } catch (error) {
+                      testSpan.recordException(error as Error)
+                      testSpan.setStatus({ code: SpanStatusCode.ERROR, message: String(error) })
+                      testSpan.end()
+                      throw error
+                    }
+                  })
+                })
+
+                llmSpan.setStatus({ code: SpanStatusCode.OK })
+                llmSpan.end()
+              } catch (error) {
+                llmSpan.recordException(error as Error)
+                llmSpan.setStatus({ code: SpanStatusCode.ERROR, message: String(error) })
+                llmSpan.end()
+                throw error
+              }
+            })
+          })
+
+          parentSpan.setAttribute('metadata.score', score)
+          console.log(`Run: ${run.algorithm.number} - Score: ${(score * 100).toFixed(2)}%`)
+
+          record.score = score
+
+          if (score === 0) {
+            parentSpan.setStatus({ code: SpanStatusCode.ERROR, message: 'Score is 0' })
+          } else {
+            parentSpan.setStatus({ code: SpanStatusCode.OK })
+          }
+          parentSpan.end()
+        } catch (error) {
+          record.error = error instanceof Error ? error.message : String(error)
+          parentSpan.recordException(error as Error)
+          parentSpan.setStatus({ code: SpanStatusCode.ERROR, message: String(error) })
+          parentSpan.end()
+          // Агент недоступний -- решту запусків скасовуємо, часткові результати зберігаємо
+          if (error instanceof CircuitOpenError) {
+            aborted = error.message
+            queue.clear()
+          } else if (!(error instanceof AgentCallError)) throw error
+        } finally {
+          record.timings.totalMs = Math.round(performance.now() - runStart)
+        }
+      })
+    })
+  }
+
+  await queue.onIdle()
+  const breakdown = computeBreakdown(records)
+  const averageScore = breakdown.categories.overall?.score ?? 0
+  if (aborted) console.log(`Test runner aborted: ${aborted}`)
+  console.log(`Average Score: ${(averageScore * 100).toFixed(2)}%`)
+  console.log(
+    `Agent calls: ${agentCallStats.calls} calls, ${agentCallStats.attempts} attempts (${agentCallStats.retries} retries), ${agentCallStats.failedCalls} failed`
+  )
+  console.log(`\n${formatBreakdown(breakdown)}\n`)
+
+  const files = await writeResults({
+    version: resultsVersion,
+    evalId,
+    mode: 'test',
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    agentUrl: AgentUrl,
+    score: averageScore,
+    breakdown,
+    timings: { learn: [], task: taskTimings },
+    agentCalls: agentCallStats,
+    aborted,
+    learnings: [],
+    runs: records
+  })
+  console.log(`Results: ${files.json}, ${files.junit}, ${files.html}`)
+}
@@ -0,0 +1,63 @@
+import { formatBreakdown } from '../lib/report'
+import { readResults, runLabel, writeHtmlReport } from '../lib/results'
+
+const pct = (score: number) => `${(score * 100).toFixed(2)}%`
+
+// Підсумок збереженого eval (за evalId або шляхом до `.json`): бали, виклики агента та невдалі запуски.
+// `html` -- також (пере)записати HTML-звіт у `resultsFolder`
+export async function runReport(ref: string, html = false) {
+  const results = await readResults(ref)
+  const avg = (arr: number[]) => (arr.length ? Math.round(arr.reduce((a, b) => a + b, 0) / arr.length) : 0)
+
+  console.log(
+    `Eval ${results.evalId} (${results.mode}${results.curriculum ? `, curriculum ${results.curriculum}` : ''}), ${results.startedAt} - ${results.finishedAt}`
+  )
+  console.log(`Agent: ${results.agentUrl}`)
+  if (results.rescoredFrom)
+    console.log(`Rescored from: ${results.rescoredFrom} (agent responses re-extracted and re-tested)`)
+  if (results.aborted) console.log(`Aborted: ${results.aborted}`)
+  console.log(`Final score: ${pct(results.score)}`)
+  console.log(`Average time: learn=${avg(results.timings.learn)}ms, task=${avg(results.timings.task)}ms`)
+  const { agentCalls } = results
+  console.log(
+    `Agent calls: ${agentCalls.calls} calls, ${agentCalls.attempts} attempts (${agentCalls.retries} retries), ${agentCalls.failedCalls} failed`
+  )
+  const failedLearnings = results.learnings.filter((l) => !l.success)
+  if (failedLearnings.length)
+    console.log(`Failed learnings: ${failedLearnings.map((l) => `${l.file} (${l.error})`).join(', ')}`)
+
+  const strategies = new Map<string, number>()
+  for (const { extraction } of results.runs)
+    if (extraction) strategies.set(extraction.strategy, (strategies.get(extraction.strategy) ?? 0) + 1)
+  const ambiguous = results.runs.filter((r) => r.extraction?.ambiguous).length
+  if (strategies.size)
+    console.log(
+      `Code extraction: ${[...strategies].map(([s, n]) => `${s} ${n}`).join(', ')}${ambiguous ? ` (${ambiguous} ambiguous)` : ''}`
+    )
+
+  console.log(`\n${formatBreakdown(results.breakdown)}`)
+
+  // Скільки запусків мають кожен вид діагностики статичного аналізу
+  const diagnosed = new Map<string, number>()
+  for (const record of results.runs)
+    for (const code of new Set(record.diagnostics?.map((d) => d.code)))
+      diagnosed.set(code, (diagnosed.get(code) ?? 0) + 1)
+  if (diagnosed.size) {
+    console.log('\nStatic analysis:')
+    for (const [code, count] of [...diagnosed].sort((a, b) => b[1] - a[1])) console.log(`  ${code}: ${count} runs`)
+  }
+
+  const failed = results.runs.filter((r) => r.error !== undefined || (r.score ?? 0) < 1)
+  if (failed.length) {
+    console.log('\nNot fully solved:')
+    for (const record of failed) {
+      const passed = record.testResults.filter((t) => t.passed).length
+      const codes = [...new Set(record.diagnostics?.map((d) => d.code))]
+      console.log(
+        `  ${runLabel(record)}: ${record.error !== undefined ? `❌ ${record.error}` : `${pct(record.score ?? 0)} (${passed}/${record.testResults.length})`}${codes.length ? ` [${codes.join(', ')}]` : ''}`
+      )
+    }
+  }
+
+  if (html) console.log(`\nHTML report: ${await writeHtmlReport(results)}`)
+}
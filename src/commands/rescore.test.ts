@@ -0,0 +1,81 @@
+import { afterAll, beforeAll, expect, spyOn, test } from 'bun:test'
+import { chmodSync } from 'node:fs'
+import { mkdtemp, readdir, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import runs from '../../2_runs.json'
+import { configure, mavkaPath, resultsFolder, tmpFolder } from '../conf'
+import { computeBreakdown } from '../lib/report'
+import { type EvalResults, type RepairRound, type RunRecord, resultsVersion, runRecordBase } from '../lib/results'
+import { runRescore } from './rescore'
+
+const [run, second] = runs as [(typeof runs)[0], (typeof runs)[0]]
+const previous = { mavkaPath, resultsFolder, tmpFolder }
+let dir: string
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'runner-rescore-'))
+  // Фальшива Мавка падає на кожній програмі, тож кожна перетестована відповідь отримує 0
+  await Bun.write(join(dir, 'mavka'), '#!/bin/sh\nexit 3\n')
+  chmodSync(join(dir, 'mavka'), 0o755)
+  configure({ mavkaPath: join(dir, 'mavka'), resultsFolder: join(dir, 'results'), tmpFolder: dir })
+})
+
+afterAll(async () => {
+  configure(previous)
+  await rm(dir, { recursive: true, force: true })
+})
+
+const response = `\`\`\`mavka\n${run.private.idealMavkaCode}\n\`\`\``
+
+const source = (records: RunRecord[]): EvalResults => {
+  const breakdown = computeBreakdown(records)
+  return {
+    version: resultsVersion,
+    evalId: 'source',
+    mode: 'test',
+    startedAt: '2026-01-01T00:00:00.000Z',
+    finishedAt: '2026-01-01T00:01:00.000Z',
+    agentUrl: 'http://localhost:3000/text',
+    score: breakdown.categories.overall?.score ?? 0,
+    breakdown,
+    timings: { learn: [], task: [] },
+    agentCalls: { calls: 2, attempts: 2, retries: 0, failedCalls: 1, circuitOpen: false },
+    learnings: [],
+    runs: records
+  }
+}
+
+test('rescore re-tests saved responses and writes a new eval', async () => {
+  const solved = { prompt: 'Виправ', response, score: 1 } as RepairRound
+  const records: RunRecord[] = [
+    { ...runRecordBase(run, 0), response, score: 1, repair: { rounds: [solved], solvedRound: 1 } },
+    { ...runRecordBase(second, 1), error: 'HTTP 500' },
+    { ...runRecordBase({ ...run, uuid: '00000000-0000-4000-8000-000000000000' }, 2), response, score: 1 }
+  ]
+  const path = join(dir, 'source.json')
+  await Bun.write(path, JSON.stringify(source(records)))
+
+  const log = spyOn(console, 'log').mockImplementation(() => {})
+  try {
+    await runRescore(path)
+  } finally {
+    log.mockRestore()
+  }
+
+  const [file] = (await readdir(join(dir, 'results'))).filter((f) => f.endsWith('.json'))
+  const results = (await Bun.file(join(dir, 'results', file as string)).json()) as EvalResults
+  expect(results.rescoredFrom).toBe('source')
+  expect(results.agentCalls).toEqual(source(records).agentCalls)
+
+  const [rescored, errored, missing] = results.runs
+  expect(rescored?.score).toBe(0)
+  expect(rescored?.extraction?.strategy).toBe('fence')
+  expect(rescored?.testResults?.every((t) => t.outcome === 'crash')).toBe(true)
+  expect(rescored?.repair?.rounds[0]?.score).toBe(0)
+  expect(rescored?.repair?.solvedRound).toBeUndefined()
+  // Запуски без відповіді та поза `2_runs.json` лишаються як є
+  expect(errored).toEqual(records[1] as RunRecord)
+  expect(missing?.score).toBe(1)
+  expect(results.score).toBe(0.5)
+})
@@ -0,0 +1,95 @@
+import { nanoid } from 'nanoid'
+import PQueue from 'p-queue'
+import runs from '../../2_runs.json'
+import { concurrency } from '../conf'
+import { analyzeMavkaCode } from '../lib/analyze_mavka'
+import { runComparator } from '../lib/comparators'
+import { extractCodeFromLLM } from '../lib/extract_llm_code'
+import { buildReferenceIndex, gradeRunReferences, type ReferenceIndex } from '../lib/references'
+import { computeBreakdown, formatBreakdown } from '../lib/report'
+import { type EvalResults, type RunRecord, readResults, runLabel, writeResults } from '../lib/results'
+import { testMavkaCode } from '../lib/run_mavka'
+import { findSampledRun } from '../lib/sampling'
+
+type Run = (typeof runs)[0]
+
+const pct = (score: number) => `${(score * 100).toFixed(2)}%`
+
+// Витягування коду, статичний аналіз і тести за поточними `2_runs.json`, компараторами та `extractCodeFromLLM`
+async function rescoreResponse(response: string, run: Run) {
+  const { code, ...extraction } = extractCodeFromLLM(response)
+  const diagnostics = analyzeMavkaCode(code)
+  const testResults = await testMavkaCode(code, run.private.testCases, runComparator(run))
+  const score = testResults.filter((r) => r.passed).length / testResults.length
+  return { code, extraction, diagnostics, testResults, score }
+}
+
+async function rescoreRecord(original: RunRecord, run: Run, referenceIndex: ReferenceIndex): Promise<RunRecord> {
+  // Запуски без відповіді агента (помилка виклику) лишаються як є
+  if (original.response === undefined) return original
+  const record: RunRecord = {
+    ...original,
+    ...(await rescoreResponse(original.response, run)),
+    referenceGrade: gradeRunReferences(original.references, run, referenceIndex)
+  }
+  if (original.repair) {
+    const rounds = []
+    for (const round of original.repair.rounds)
+      rounds.push({ ...round, ...(await rescoreResponse(round.response, run)) })
+    const solved = rounds.findIndex((round) => round.score === 1)
+    record.repair = { ...original.repair, rounds, solvedRound: solved === -1 ? undefined : solved + 1 }
+  }
+  return record
+}
+
+// Перераховує бали збереженого eval з відповідей агента, не викликаючи агента: код витягується й тестується,
+// посилання оцінюються заново, а результат записується як новий eval з `rescoredFrom`. Фідбек не перегенеровується
+export async function runRescore(ref: string) {
+  const source = await readResults(ref)
+  const evalId = nanoid()
+  const startedAt = new Date().toISOString()
+  console.log(`Rescoring eval ${source.evalId} (evalId: ${evalId})`)
+
+  const queue = new PQueue({ concurrency })
+  const referenceIndex = buildReferenceIndex(source.curriculum)
+  const missing: string[] = []
+  const records = await Promise.all(
+    source.runs.map((original) =>
+      queue.add(async () => {
+        const run = findSampledRun(runs, original.uuid, original.sample, source.curriculum)
+        if (!run) {
+          missing.push(runLabel(original))
+          return original
+        }
+        return rescoreRecord(original, run, referenceIndex)
+      })
+    )
+  )
+  if (missing.length) console.log(`Not in 2_runs.json, kept unchanged: ${missing.join(', ')}`)
+
+  let changed = 0
+  for (const [i, record] of records.entries()) {
+    const before = source.runs[i]?.score
+    if (record.score === before) continue
+    if (!changed++) console.log('Changed scores:')
+    console.log(`  ${runLabel(record)}: ${pct(before ?? 0)} -> ${pct(record.score ?? 0)}`)
+  }
+
+  const breakdown = computeBreakdown(records)
+  const score = breakdown.categories.overall?.score ?? 0
+  const results: EvalResults = {
+    ...source,
+    evalId,
+    rescoredFrom: source.evalId,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    score,
+    breakdown,
+    runs: records
+  }
+  const files = await writeResults(results)
+
+  console.log(`\n${formatBreakdown(breakdown)}\n`)
+  console.log(`Final score: ${pct(source.score)} -> ${pct(score)} (${changed} runs changed)`)
+  console.log(`Results: ${files.json}, ${files.junit}, ${files.html}`)
+}
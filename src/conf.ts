@@ -1,46 +1,161 @@
-import { AzureChatOpenAI } from '@langchain/openai'
+import { trace } from '@opentelemetry/api'
 import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-proto'
 import { NodeTracerProvider, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-node'
 import { env } from 'bun'
+import type z from 'zod'
+import { agentProtocolSchema, feedbackProviderSchema } from './lib/config_file'
+
+// Налаштування, позначені `let`, можна перевизначити через `configure` (CLI-прапорці чи файл конфігурації)
 
 // Шлях до мавки (через env)
-export const mavkaPath = env.MAVKA_PATH || '/Users/mark/мавка'
+export let mavkaPath = env.MAVKA_PATH || '/Users/mark/мавка'
 
 // Посилання на агента (через env)
-export const AgentUrl = env.AGENT_URL || 'http://localhost:3000/text'
+export let AgentUrl = env.AGENT_URL || 'http://localhost:3000/text'
+
+// Протокол агента (див. `agentAdapters` у `src/lib/agent_adapters.ts`):
+//  - `text` -- POST `{text, uid}` -> `{response, references?, reasoning?}`
+//  - `openai` -- OpenAI-сумісний chat-completions (`AgentUrl` -- повний шлях, напр. `.../v1/chat/completions`),
+//    кожен `uid` -- окрема розмова з історією, яку зберігає runner; модель -- `agentModel`
+//  - `sse` -- як `text`, але відповідь приходить потоком SSE (записується час до першого фрагменту)
+export type AgentProtocol = 'text' | 'openai' | 'sse'
+export let agentProtocol: AgentProtocol = (env.AGENT_PROTOCOL as AgentProtocol) || 'text'
+export let agentModel = env.AGENT_MODEL || 'default'
+
+// Автентифікація агента: `Authorization: Bearer <token>` (через env) та довільні заголовки запиту
+export let agentBearerToken = env.AGENT_BEARER_TOKEN
+export let agentHeaders: Record<string, string> = {}
 
 // Timeout запитів до API агента
-export const agentTimeoutMs = 20_000
-
-// TODO: змініть це на вашу модель фідбеку, або зробіть `disableFeedback = true`
-// Протестувати можна через `console.log(await llmFeedback.invoke('Привіт'))`
-export const disableFeedback = false
-export const llmFeedback = () =>
-  new AzureChatOpenAI({
-    model: 'gpt-4.1',
-    maxRetries: 3,
-    timeout: 30 * 1000, // 30 seconds
-    azureOpenAIApiKey: env.AZURE_KEY,
-    azureOpenAIApiInstanceName: env.AZURE_INSTANCE,
-    azureOpenAIApiDeploymentName: 'gpt-4.1',
-    azureOpenAIApiVersion: '2025-04-01-preview',
-    modelKwargs: {
-      seed: 42
-    }
-  })
+export let agentTimeoutMs = 20_000
+
+// Скільки незалежних ланцюжків запусків (quick-test: запусків) виконувати паралельно
+export let concurrency = 4
+
+// Раунди виправлення: після проваленого тестування агент отримує провалені тести на тому ж uuid і пробує ще раз
+// (до `repairRounds` разів, 0 -- вимкнено). Бал запуску -- перша спроба, виправлення звітуються як pass@k
+export let repairRounds = 0
+
+// Повтори запитів до агента: лише при timeout, 5xx чи мережевих помилках (ніколи при помилках схеми).
+// Після `circuitBreakerThreshold` поспіль невдалих викликів eval переривається -- агент, схоже, не працює
+export const agentRetry = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 10_000,
+  circuitBreakerThreshold: 5
+}
+
+// TODO: оберіть генератор фідбеку (`feedback` нижче), або вимкніть фідбек (`--disable-feedback` чи `disableFeedback` у конфігурації)
+export let disableFeedback = false
+
+// Генератор фідбеку (див. `feedbackProviders` у `src/lib/gen_feedback.ts`):
+//  - `azure` -- Azure OpenAI (env AZURE_KEY, AZURE_INSTANCE), `model` -- назва deployment
+//  - `openai` -- будь-який OpenAI-сумісний endpoint (`baseUrl`), зокрема локальний llama.cpp чи vLLM
+//  - `template` -- детермінований фідбек з провалених тестів та розділів `docs.md`, без LLM
+export interface FeedbackConfig {
+  provider: 'azure' | 'openai' | 'template'
+  model: string
+  baseUrl?: string
+  apiKey?: string
+}
+
+export let feedback: FeedbackConfig = {
+  provider: (env.FEEDBACK_PROVIDER as FeedbackConfig['provider']) || 'azure',
+  model: env.FEEDBACK_MODEL || 'gpt-4.1',
+  baseUrl: env.FEEDBACK_BASE_URL,
+  apiKey: env.FEEDBACK_API_KEY
+}
+
+// Кеш фідбеку (`feedbackCacheFolder`): `record` -- брати з кешу, а відсутній генерувати й записувати,
+// `replay` -- лише з кешу (відсутній фідбек -- помилка запуску), `off` -- завжди генерувати
+export type FeedbackCacheMode = 'record' | 'replay' | 'off'
+export let feedbackCache: FeedbackCacheMode = 'off'
+export let feedbackCacheFolder = 'feedback_cache' // NOTE: without the trailing slash
 
-export const tmpFolder = '/tmp' // NOTE: without the trailing slash
+// Додавати до промпту фідбеку діагностики статичного аналізу коду агента (`src/lib/analyze_mavka.ts`)
+export let feedbackDiagnostics = false
+
+export let tmpFolder = '/tmp' // NOTE: without the trailing slash
+
+// Обмеження для кожного запуску Мавки (один тест-кейс): час, розмір stdout/stderr та памʼять (`ulimit -v`, лише якщо задано).
+// Перевизначаються через `mavkaLimits` у файлі конфігурації
+export const mavkaLimits = {
+  timeoutMs: 5_000,
+  // Додатковий час на кожен наступний кейс, коли всі кейси виконуються одним процесом (`mavkaBatched`)
+  batchCaseMs: 250,
+  maxOutputBytes: 64 * 1024,
+  memoryMb: undefined as number | undefined
+}
+
+// Запускати всі тест-кейси програми одним процесом Мавки (з окремими процесами лише якщо програма впала)
+export const mavkaBatched = true
+
+// Папка для файлів результатів кожного eval (`<evalId>.json` та `<evalId>.junit.xml`)
+export let resultsFolder = 'results' // NOTE: without the trailing slash
+
+// Допустиме падіння балу (загального чи будь-якої категорії) при порівнянні двох eval, 0.02 = 2 п.п.
+export const regressionThreshold = 0.02
 
 // Експорт трейсів у Arize Phoenix (згадано у README)
-const otelProvider = new NodeTracerProvider({
-  spanProcessors: [
-    new SimpleSpanProcessor(
-      new OTLPTraceExporter({
-        url: 'http://localhost:6006/v1/traces'
-      })
-    )
-  ]
-})
-otelProvider.register()
-
-export const tracer = otelProvider.getTracer('mavka-runner')
+export let phoenixUrl = env.PHOENIX_URL || 'http://localhost:6006/v1/traces'
+
+export interface RunnerConfig {
+  mavkaPath?: string
+  agentUrl?: string
+  agentProtocol?: AgentProtocol
+  agentModel?: string
+  agentBearerToken?: string
+  agentHeaders?: Record<string, string>
+  agentTimeoutMs?: number
+  concurrency?: number
+  repairRounds?: number
+  disableFeedback?: boolean
+  feedback?: Partial<FeedbackConfig>
+  feedbackCache?: FeedbackCacheMode
+  feedbackCacheFolder?: string
+  feedbackDiagnostics?: boolean
+  mavkaLimits?: Partial<typeof mavkaLimits>
+  tmpFolder?: string
+  resultsFolder?: string
+  phoenixUrl?: string
+}
+
+// Значення з env лише приведені до типу -- перевіряємо їх тут; з конфігурації та прапорців вони вже валідні
+function parseEnv<T extends z.ZodEnum>(name: string, schema: T, value: string): z.infer<T> {
+  const parsed = schema.safeParse(value)
+  if (parsed.success) return parsed.data
+  const options = schema.options.map(String)
+  throw new Error(`Invalid ${name} "${value}", expected ${options.slice(0, -1).join(', ')} or ${options.at(-1)}`)
+}
+
+export function configure(config: RunnerConfig) {
+  mavkaPath = config.mavkaPath ?? mavkaPath
+  AgentUrl = config.agentUrl ?? AgentUrl
+  agentProtocol = parseEnv('AGENT_PROTOCOL', agentProtocolSchema, config.agentProtocol ?? agentProtocol)
+  agentModel = config.agentModel ?? agentModel
+  agentBearerToken = config.agentBearerToken ?? agentBearerToken
+  agentHeaders = { ...agentHeaders, ...config.agentHeaders }
+  agentTimeoutMs = config.agentTimeoutMs ?? agentTimeoutMs
+  concurrency = config.concurrency ?? concurrency
+  repairRounds = config.repairRounds ?? repairRounds
+  disableFeedback = config.disableFeedback ?? disableFeedback
+  feedback = { ...feedback, ...config.feedback }
+  feedback.provider = parseEnv('FEEDBACK_PROVIDER', feedbackProviderSchema, feedback.provider)
+  feedbackCache = config.feedbackCache ?? feedbackCache
+  feedbackCacheFolder = config.feedbackCacheFolder ?? feedbackCacheFolder
+  feedbackDiagnostics = config.feedbackDiagnostics ?? feedbackDiagnostics
+  Object.assign(mavkaLimits, config.mavkaLimits)
+  tmpFolder = config.tmpFolder ?? tmpFolder
+  resultsFolder = config.resultsFolder ?? resultsFolder
+  phoenixUrl = config.phoenixUrl ?? phoenixUrl
+}
+
+// Спани, створені до `startTracing`, нікуди не експортуються
+export const tracer = trace.getTracer('mavka-runner')
+
+export function startTracing() {
+  const otelProvider = new NodeTracerProvider({
+    spanProcessors: [new SimpleSpanProcessor(new OTLPTraceExporter({ url: phoenixUrl }))]
+  })
+  otelProvider.register()
+}
@@ -1,387 +1,348 @@
-import { type Context, context, SpanStatusCode, trace } from '@opentelemetry/api'
-import { Listr } from 'listr2'
-import { nanoid } from 'nanoid'
+import { parseArgs } from 'node:util'
 import runs from '../2_runs.json'
-import learnings from '../learnings.json'
-import { disableFeedback } from './conf'
-import { AgentCallError, callAgent } from './lib/call_agent'
-import { extractCodeFromLLM } from './lib/extract_llm_code'
-import { generateFeedback } from './lib/gen_feedback'
-import { testMavkaCode } from './lib/run_mavka'
-import type { TestResult } from './lib/types'
-import { ProgressTracker, withSpan } from './lib/utils'
-
-const evalId = nanoid()
-console.log(`Runner started (evalId: ${evalId})`)
-
-const timings = { learn: [] as number[], task: [] as number[] }
-
-type Run = (typeof runs)[0]
-type Learning = (typeof learnings)[0]
+import { runCompare } from './commands/compare'
+import { runCurriculumBatch } from './commands/curriculum'
+import { runDatasetGenerate, runDatasetValidate } from './commands/dataset'
+import { runEval } from './commands/eval'
+import { runQuickTest } from './commands/quick_test'
+import { runReport } from './commands/report'
+import { runRescore } from './commands/rescore'
+import {
+  type AgentProtocol,
+  configure,
+  type FeedbackCacheMode,
+  type FeedbackConfig,
+  type RunnerConfig,
+  regressionThreshold,
+  startTracing
+} from './conf'
+import { readConfigFile } from './lib/config_file'
+import { type CurriculumProfile, curriculumProfiles, isCurriculumProfile } from './lib/curriculum'
+import { type RunFilter, selectRuns } from './lib/filters'
+
+const usage = `Usage: bun src/index.ts <command> [options]
+
+Commands:
+  learn                 Навчання агента документацією (без тестування)
+  eval                  Навчання, а потім тестування агента (повний evaluation)
+  quick-test            Тестування без навчання: агент отримує детальний опис алгоритму
+  report <evalId|path>  Підсумок збереженого eval (--html -- також записати HTML-звіт)
+  rescore <evalId|path> Перерахувати бали збереженого eval з його відповідей агента (без викликів агента)
+  compare <before> <after>
+                        Порівняння двох збережених eval; код 1, якщо бал впав більше ніж на --threshold
+  dataset validate [runs.json] [learnings.json]
+                        Перевірка набору даних: схема, uid, звʼязки запусків, файли алгоритмів, еталонний код
+  dataset generate <spec.json> [runs.json] [learnings.json]
+                        Нова родина запусків алгоритму (з файлу алгоритму в 1_learning/2_algorithms), перевірена Мавкою
+
+Filters (eval, quick-test):
+  --algorithms 18,134   Лише запуски з цими номерами алгоритмів
+  --types review        Лише запуски цих типів (implement, review)
+  --conflicted          Лише конфліктні запуски (--non-conflicted -- лише звичайні)
+  --skip-learning       Пропустити навчання документацією (лише eval)
+  --resume <evalId>     Продовжити перерваний eval чи learn (лише eval, learn)
+  --concurrency 4       Скільки незалежних ланцюжків запусків виконувати паралельно (eval, quick-test)
+  --samples 5           Виконати кожен запуск k разів з новими сесіями агента: pass@k, розкид та інтервали довіри (eval, quick-test)
+  --curriculum docs     Профіль навчання з власними сесіями агента (learn, eval); кілька через кому -- абляція:
+                        окремий eval для кожного профілю й таблиця балів (лише eval). Профілі:
+${Object.entries(curriculumProfiles)
+  .map(([name, description]) => `                          ${name.padEnd(14)}${description}`)
+  .join('\n')}
+
+Dataset:
+  --static              Лише статичні перевірки, без запуску Мавки (dataset validate, dataset generate)
+  --dry-run             Вивести згенеровані запуски, не змінюючи runs.json (dataset generate)
+
+Compare:
+  --threshold ${regressionThreshold}      Допустиме падіння загального балу чи балу категорії (compare)
+
+Config (також у runner.config.json чи --config <file>):
+  --agent-url <url>  --agent-timeout-ms <ms>  --repair-rounds <n>  --disable-feedback  --mavka-path <path>
+  --agent-protocol <text|openai|sse>  --agent-model <model>  --agent-header 'Name: value' (можна кілька разів)
+  --feedback-provider <azure|openai|template>  --feedback-cache <record|replay|off>  --feedback-diagnostics
+  --tmp-folder <dir>  --results-folder <dir>  --phoenix-url <url>`
+
+const options = {
+  help: { type: 'boolean', short: 'h' },
+  config: { type: 'string' },
+  'agent-url': { type: 'string' },
+  'agent-timeout-ms': { type: 'string' },
+  'agent-protocol': { type: 'string' },
+  'agent-model': { type: 'string' },
+  'agent-header': { type: 'string', multiple: true },
+  'repair-rounds': { type: 'string' },
+  'disable-feedback': { type: 'boolean' },
+  'feedback-provider': { type: 'string' },
+  'feedback-cache': { type: 'string' },
+  'feedback-diagnostics': { type: 'boolean' },
+  'mavka-path': { type: 'string' },
+  'tmp-folder': { type: 'string' },
+  'results-folder': { type: 'string' },
+  'phoenix-url': { type: 'string' },
+  algorithms: { type: 'string' },
+  types: { type: 'string' },
+  conflicted: { type: 'boolean' },
+  'non-conflicted': { type: 'boolean' },
+  'skip-learning': { type: 'boolean' },
+  resume: { type: 'string' },
+  concurrency: { type: 'string' },
+  samples: { type: 'string' },
+  curriculum: { type: 'string' },
+  static: { type: 'boolean' },
+  'dry-run': { type: 'boolean' },
+  html: { type: 'boolean' },
+  threshold: { type: 'string' }
+} as const
+
+// Опції, що мають сенс лише для окремих команд
+const commandOptions: Record<string, (keyof typeof options)[]> = {
+  learn: ['resume', 'curriculum'],
+  eval: [
+    'algorithms',
+    'types',
+    'conflicted',
+    'non-conflicted',
+    'skip-learning',
+    'resume',
+    'concurrency',
+    'samples',
+    'curriculum'
+  ],
+  'quick-test': ['algorithms', 'types', 'conflicted', 'non-conflicted', 'concurrency', 'samples'],
+  report: ['html'],
+  rescore: [],
+  compare: ['threshold'],
+  dataset: ['static', 'dry-run']
+}
+const commandSpecific = new Set(Object.values(commandOptions).flat())
 
-// --- Learning Phase ---
+function fail(message: string): never {
+  console.error(`${message}\n\n${usage}`)
+  process.exit(2)
+}
 
-async function processLearning(
-  learning: Learning,
-  index: number,
-  total: number
-): Promise<{ success: boolean; ms?: number; error?: string }> {
+function parseCliArgs() {
   try {
-    const ms = await withSpan(
-      `Learning ${index + 1}/${total} [${learning.file}]`,
-      {
-        'openinference.span.kind': 'LLM',
-        'metadata.learning_index': index + 1,
-        'metadata.learning_total': total,
-        'metadata.file_path': learning.file,
-        'metadata.uid': learning.uid
-      },
-      async (span) => {
-        const file = await Bun.file(learning.file).text()
-        span.setAttribute('llm.input_messages.0.message.role', 'user')
-        span.setAttribute('llm.input_messages.0.message.content', file)
-        const result = await callAgent(file, learning.uid)
-        span.setAttribute('llm.output_messages.0.message.role', 'assistant')
-        span.setAttribute('llm.output_messages.0.message.content', result.response)
-        if (result.references?.length) span.setAttribute('metadata.references', JSON.stringify(result.references))
-        if (result.reasoning) span.setAttribute('metadata.reasoning', result.reasoning)
-        return result.ms
-      }
-    )
-    timings.learn.push(ms)
-    return { success: true, ms }
+    return parseArgs({ args: Bun.argv.slice(2), allowPositionals: true, options })
   } catch (error) {
-    if (error instanceof AgentCallError) return { success: false, error: error.message }
-    throw error
+    return fail((error as Error).message)
   }
 }
 
-// --- Testing Phase ---
+const { values, positionals } = parseCliArgs()
+const [command, ...rest] = positionals
 
-async function learnConflictingAlgorithm(
-  run: Run,
-  parentCtx: Context
-): Promise<{ success: boolean; ms?: number; error?: string }> {
-  if (run.algorithm.number <= 100)
-    throw new Error(`Conflicting algorithm must have number > 100, got ${run.algorithm.number}`)
-  if (!run.uuidConflictingDocs) throw new Error(`Missing uuidConflictingDocs for run ${run.algorithm.number}`)
-
-  try {
-    const ms = await withSpan(
-      'Learning Conflicting Algorithm',
-      { 'openinference.span.kind': 'LLM' },
-      async (span) => {
-        const paddedNumber = String(run.algorithm.number).padStart(3, '0')
-        const glob = new Bun.Glob(`1_learning/2_algorithms/${paddedNumber}_*`)
-        const files = await Array.fromAsync(glob.scan('.'))
-        if (files.length !== 1)
-          throw new Error(`Expected exactly one file for algorithm ${run.algorithm.number}, found ${files.length}`)
-        const algorithmFile = files[0]!
-        const algorithmText = await Bun.file(algorithmFile).text()
-        if (!algorithmText) throw new Error(`Algorithm file ${algorithmFile} is empty`)
-
-        span.setAttribute('metadata.algorithm_file', algorithmFile)
-        span.setAttribute('llm.input_messages.0.message.role', 'user')
-        span.setAttribute('llm.input_messages.0.message.content', algorithmText)
-        const result = await callAgent(algorithmText, run.uuidConflictingDocs!)
-        span.setAttribute('llm.output_messages.0.message.role', 'assistant')
-        span.setAttribute('llm.output_messages.0.message.content', result.response)
-        if (result.references?.length) span.setAttribute('metadata.references', JSON.stringify(result.references))
-        if (result.reasoning) span.setAttribute('metadata.reasoning', result.reasoning)
-        return result.ms
-      },
-      parentCtx
-    )
-    timings.learn.push(ms)
-    return { success: true, ms }
-  } catch (error) {
-    if (error instanceof AgentCallError) return { success: false, error: error.message }
-    throw error
-  }
+if (values.help) {
+  console.log(usage)
+  process.exit(0)
+}
+if (!command || !(command in commandOptions)) fail(command ? `Unknown command "${command}"` : 'Missing command')
+for (const [name, value] of Object.entries(values)) {
+  const option = name as keyof typeof options
+  if (value !== undefined && commandSpecific.has(option) && !commandOptions[command]?.includes(option))
+    fail(`Option --${name} is not supported by "${command}"`)
 }
 
-type CallAgentAndTestResult =
-  | { success: true; code: string; testResults: TestResult[]; score: number; ms: number }
-  | { success: false; error: string }
+function parseNumbers(name: string, value: string | undefined): number[] | undefined {
+  if (value === undefined) return undefined
+  const numbers = value.split(',').map((n) => Number(n.trim()))
+  if (numbers.some((n) => !Number.isInteger(n))) fail(`--${name} expects comma-separated integers, got "${value}"`)
+  return numbers
+}
 
-async function callAgentAndTest(run: Run, prompt: string, parentCtx: Context): Promise<CallAgentAndTestResult> {
-  try {
-    const result = await withSpan(
-      'Agent Call',
-      {
-        'openinference.span.kind': 'LLM',
-        'llm.input_messages.0.message.role': 'user',
-        'llm.input_messages.0.message.content': prompt
-      },
-      async (llmSpan) => {
-        if (!run.uuid) throw new Error(`Missing uuid for run ${run.algorithm.number}`)
-        const agentResult = await callAgent(prompt, run.uuid)
-        const code = extractCodeFromLLM(agentResult.response)
+function parsePositive(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined
+  const n = Number(value)
+  if (!Number.isInteger(n) || n <= 0) fail(`--${name} expects a positive integer, got "${value}"`)
+  return n
+}
 
-        llmSpan.setAttribute('llm.output_messages.0.message.role', 'assistant')
-        llmSpan.setAttribute('llm.output_messages.0.message.content', agentResult.response)
-        llmSpan.setAttribute('output.extracted_code', code)
-        if (agentResult.references?.length)
-          llmSpan.setAttribute('metadata.references', JSON.stringify(agentResult.references))
-        if (agentResult.reasoning) llmSpan.setAttribute('metadata.reasoning', agentResult.reasoning)
+function parseNonNegative(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined
+  const n = Number(value)
+  if (!Number.isInteger(n) || n < 0) fail(`--${name} expects a non-negative integer, got "${value}"`)
+  return n
+}
 
-        const llmContext = trace.setSpan(context.active(), llmSpan)
-        const testResults = await withSpan(
-          'Testing',
-          {
-            'openinference.span.kind': 'EVALUATOR',
-            'input.value': code,
-            'metadata.test_cases_count': run.private.testCases!.split('\n').length
-          },
-          async (testSpan) => {
-            const results = await testMavkaCode(code, run.private.testCases!)
-            const score = results.filter((r) => r.passed).length / results.length
-            const formatted = results
-              .map(
-                (r, i) =>
-                  `Test ${i + 1}: ${r.passed ? '✅ PASS' : '❌ FAIL'}\n  Input: ${r.input}\n  Expected: ${r.expected}\n  Got: ${r.actual}`
-              )
-              .join('\n\n')
-            const output = `Score: ${(score * 100).toFixed(0)}% (${results.filter((r) => r.passed).length}/${results.length} tests passed)\n\n${formatted}`
-            testSpan.setAttribute('output.value', output)
-            testSpan.setAttribute('llm.output_messages.0.message.role', 'human')
-            testSpan.setAttribute('llm.output_messages.0.message.content', output)
-            testSpan.setAttribute('metadata.score', score)
-            return results
-          },
-          llmContext
-        )
-        const score = testResults.filter((r) => r.passed).length / testResults.length
-        return { code, testResults, score, ms: agentResult.ms }
-      },
-      parentCtx
-    )
-    timings.task.push(result.ms)
-    return { success: true, ...result }
-  } catch (error) {
-    if (error instanceof AgentCallError) return { success: false, error: error.message }
-    throw error
-  }
+function parseThreshold(value: string | undefined): number {
+  if (value === undefined) return regressionThreshold
+  const n = Number(value)
+  if (value.trim() === '' || !Number.isFinite(n) || n < 0)
+    fail(`--threshold expects a non-negative number, got "${value}"`)
+  return n
 }
 
-async function deliverFeedback(
-  run: Run,
-  code: string,
-  testResults: TestResult[],
-  parentCtx: Context
-): Promise<{ success: boolean; ms?: number; error?: string }> {
-  if (!run.private.algorithmPlain) throw new Error(`Missing algorithmPlain for run ${run.algorithm.number}`)
-  if (!run.private.idealMavkaCode) throw new Error(`Missing idealMavkaCode for run ${run.algorithm.number}`)
-  if (!run.uuidFeedback) throw new Error(`Missing uuidFeedback for run ${run.algorithm.number}`)
+function parseAgentProtocol(value: string): AgentProtocol {
+  if (value !== 'text' && value !== 'openai' && value !== 'sse')
+    fail(`Unknown agent protocol "${value}", expected text, openai or sse`)
+  return value
+}
 
-  try {
-    const ms = await withSpan(
-      'Feedback',
-      {
-        'openinference.span.kind': 'LLM',
-        'metadata.algorithm': run.private.algorithmPlain,
-        'metadata.user_code': code,
-        'metadata.ideal_code': run.private.idealMavkaCode
-      },
-      async (span) => {
-        const feedback = await generateFeedback(
-          run.private.algorithmPlain!,
-          code,
-          testResults,
-          run.private.idealMavkaCode!
-        )
-        const feedbackMsg = `Раніше вам було поставлено завдання реалізувати ${run.algorithm.name} мовою програмування Мавка.
+function parseHeaders(values: string[] | undefined): Record<string, string> | undefined {
+  if (!values) return undefined
+  return Object.fromEntries(
+    values.map((header) => {
+      const separator = header.indexOf(':')
+      if (separator <= 0) fail(`--agent-header expects "Name: value", got "${header}"`)
+      return [header.slice(0, separator).trim(), header.slice(separator + 1).trim()]
+    })
+  )
+}
 
-Ваш код:
-\`\`\`mavka
-${code}
-\`\`\`
+function parseCurriculum(value: string | undefined): CurriculumProfile[] | undefined {
+  if (value === undefined) return undefined
+  const profiles = value.split(',').map((p) => p.trim())
+  for (const profile of profiles)
+    if (!isCurriculumProfile(profile))
+      fail(`Unknown curriculum "${profile}", expected one of: ${Object.keys(curriculumProfiles).join(', ')}`)
+  return profiles as CurriculumProfile[]
+}
 
-Нижче наведено експертний відгук щодо вашої реалізації:
+function parseFeedbackProvider(value: string): FeedbackConfig['provider'] {
+  if (value !== 'azure' && value !== 'openai' && value !== 'template')
+    fail(`Unknown feedback provider "${value}", expected azure, openai or template`)
+  return value
+}
 
-${feedback}`
-        span.setAttribute('llm.input_messages.0.message.role', 'user')
-        span.setAttribute('llm.input_messages.0.message.content', feedbackMsg)
-        const result = await callAgent(feedbackMsg, run.uuidFeedback!)
-        span.setAttribute('llm.output_messages.0.message.role', 'assistant')
-        span.setAttribute('llm.output_messages.0.message.content', result.response)
-        if (result.references?.length) span.setAttribute('metadata.references', JSON.stringify(result.references))
-        if (result.reasoning) span.setAttribute('metadata.reasoning', result.reasoning)
-        return result.ms
-      },
-      parentCtx
-    )
-    timings.learn.push(ms)
-    return { success: true, ms }
-  } catch (error) {
-    if (error instanceof AgentCallError) return { success: false, error: error.message }
-    throw error
-  }
+function parseFeedbackCache(value: string): FeedbackCacheMode {
+  if (value !== 'record' && value !== 'replay' && value !== 'off')
+    fail(`Unknown feedback cache mode "${value}", expected record, replay or off`)
+  return value
 }
 
-interface RunContext {
-  testResults: Array<{ run: (typeof runs)[0]; score: number; testResults: TestResult[]; code: string }>
+// --- Config: значення за замовчуванням (conf.ts, env) < файл конфігурації < прапорці ---
+
+const flagsConfig: RunnerConfig = {
+  agentUrl: values['agent-url'],
+  agentProtocol: values['agent-protocol'] ? parseAgentProtocol(values['agent-protocol']) : undefined,
+  agentModel: values['agent-model'],
+  agentHeaders: parseHeaders(values['agent-header']),
+  agentTimeoutMs: parsePositive('agent-timeout-ms', values['agent-timeout-ms']),
+  concurrency: parsePositive('concurrency', values.concurrency),
+  repairRounds: parseNonNegative('repair-rounds', values['repair-rounds']),
+  disableFeedback: values['disable-feedback'],
+  feedback: values['feedback-provider'] ? { provider: parseFeedbackProvider(values['feedback-provider']) } : undefined,
+  feedbackCache: values['feedback-cache'] ? parseFeedbackCache(values['feedback-cache']) : undefined,
+  feedbackDiagnostics: values['feedback-diagnostics'],
+  mavkaPath: values['mavka-path'],
+  tmpFolder: values['tmp-folder']?.replace(/\/$/, ''),
+  resultsFolder: values['results-folder']?.replace(/\/$/, ''),
+  phoenixUrl: values['phoenix-url']
+}
+try {
+  configure(await readConfigFile(values.config))
+} catch (error) {
+  fail((error as Error).message)
 }
+configure(flagsConfig)
 
-function constructPrompt(run: Run): string {
-  if (run.type === 'implement') {
-    return `Напишіть код на мові програмування Мавка, який реалізовує ${run.algorithm.name}.
+// --- Filters ---
 
-Код повинен реалізовувати єдину функцію з назвою "алгоритм" -- без будь-яких інших інструкцій (як-от друк)
+function selectedRuns() {
+  const types = values.types?.split(',').map((t) => t.trim())
+  for (const type of types ?? [])
+    if (type !== 'implement' && type !== 'review') fail(`Unknown run type "${type}", expected implement or review`)
+  if (values.conflicted && values['non-conflicted']) fail('--conflicted and --non-conflicted are mutually exclusive')
 
-Відповіддю має бути єдине повідомлення у форматі:
-\`\`\`mavka
-<ваш код тут>
-\`\`\` без зайвих пояснень.
-`
+  const filter: RunFilter = {
+    algorithms: parseNumbers('algorithms', values.algorithms),
+    types: types as RunFilter['types'],
+    conflicted: values.conflicted ? true : values['non-conflicted'] ? false : undefined
   }
-
-  if (!run.mavkaCodeToReview) {
-    throw new Error(`Missing mavkaCodeToReview for review run of algorithm ${run.algorithm.number}`)
+  const selection = selectRuns(runs, filter)
+  if (!selection.runs.length) fail('No runs match the given filters')
+  if (selection.runs.length < runs.length) {
+    const pulled = selection.dependencies.length
+    console.log(
+      `Selected ${selection.runs.length}/${runs.length} runs${pulled ? ` (${pulled} first runs added for isAfterFeedback runs)` : ''}`
+    )
   }
-
-  return `Перегляньте потенційну реалізацію ${run.algorithm.name} мовою програмування Мавка.
-
-Код повинен реалізовувати єдину функцію з назвою "алгоритм" -- без будь-яких інших інструкцій (як-от друк)
-
-Код, що має реалізовувати цей алгоритм:
-\`\`\`mavka
-${run.mavkaCodeToReview}
-\`\`\`
-
-Ваше завдання: виправити будь-які помилки (якщо вони є) та вивести тільки фінальний код, що реалізує цей алгоритм мовою Мавка.
-
-Відповіддю має бути єдине повідомлення у форматі:
-\`\`\`mavka
-<ваш код тут>
-\`\`\`
-
-без зайвих пояснень`
+  return selection.runs
 }
 
-// --- Main ---
-
-const tasks = new Listr<RunContext>([
-  {
-    title: 'Learning',
-    task: async (_ctx, task) => {
-      const total = learnings.length
-      const progress = new ProgressTracker()
+// --- Commands ---
 
-      for (let i = 0; i < total; i++) {
-        const learning = learnings[i]
-        if (!learning) throw new Error(`Learning at index ${i} is undefined`)
-
-        task.title = `Learning [${i + 1}/${total}]`
-        progress.add(learning.file)
-        task.output = progress.format()
-
-        const result = await processLearning(learning, i, total)
-
-        progress.updateLast(result.success ? '✅' : `❌ ${result.error}`)
-        if (result.ms) progress.setTiming(`(${result.ms}ms)`)
-        task.output = progress.format()
-      }
-
-      task.title = `Learning [${total}/${total}] - Complete`
+switch (command) {
+  case 'learn': {
+    const profiles = parseCurriculum(values.curriculum)
+    if (profiles && profiles.length > 1) fail('"learn" supports a single --curriculum profile')
+    startTracing()
+    await runEval({ runs: [], learning: true, resume: values.resume, curriculum: profiles?.[0] })
+    break
+  }
+  case 'eval': {
+    const selected = selectedRuns()
+    const profiles = parseCurriculum(values.curriculum)
+    const samples = parsePositive('samples', values.samples)
+    const learning = !values['skip-learning']
+    if (profiles && profiles.length > 1) {
+      if (values.resume) fail('--resume supports a single --curriculum profile')
+      if (!learning) fail('--skip-learning makes a curriculum ablation meaningless')
+      startTracing()
+      await runCurriculumBatch({ runs: selected, learning, samples }, profiles)
+      break
     }
-  },
-  {
-    title: 'Testing',
-    task: async (ctx, task) => {
-      ctx.testResults = []
-      const total = runs.length
-      const progress = new ProgressTracker()
-
-      for (let i = 0; i < total; i++) {
-        const run = runs[i]
-        if (!run) throw new Error(`Run at index ${i} is undefined`)
-
-        const runName = `Test ${i + 1}/${total} [${run.algorithm.number}]${run.isAfterFeedback ? ' second run' : ''}`
-        task.title = `Running tests [${i + 1}/${total}]`
-        progress.add(`Algorithm ${run.algorithm.number}`)
-
-        const updateStatus = (status: string, timing?: string) => {
-          progress.updateLast(status)
-          if (timing) progress.setTiming(timing)
-          task.output = progress.format()
-        }
-
-        await withSpan(
-          runName,
-          {
-            'openinference.span.kind': 'CHAIN',
-            'metadata.eval_id': evalId,
-            'metadata.runner_mode': 'full',
-            'metadata.algorithm_number': run.algorithm.number,
-            'metadata.algorithm_name': run.algorithm.name,
-            'metadata.run_type': run.type,
-            'metadata.uuid': run.uuid,
-            'metadata.is_conflicted': run.isConflicted,
-            'metadata.is_after_feedback': run.isAfterFeedback
-          },
-          async (parentSpan) => {
-            const parentCtx = trace.setSpan(context.active(), parentSpan)
-
-            // Learn conflicting algorithm if needed
-            if (run.isConflicted && !run.isAfterFeedback) {
-              updateStatus('📚 learning')
-              const learnResult = await learnConflictingAlgorithm(run, parentCtx)
-              if (!learnResult.success) {
-                updateStatus(`❌ ${learnResult.error}`)
-                parentSpan.setStatus({ code: SpanStatusCode.ERROR, message: learnResult.error })
-                return
-              }
-              updateStatus('📚', `(${learnResult.ms}ms)`)
-            }
-
-            // Call agent and test
-            updateStatus(run.type === 'implement' ? '🤖 implementing' : '🤖 reviewing')
-            const prompt = constructPrompt(run)
-
-            updateStatus('🏃🏻‍♀️‍➡️ running')
-            const agentResult = await callAgentAndTest(run, prompt, parentCtx)
-
-            if (!agentResult.success) {
-              updateStatus(`❌ ${agentResult.error}`)
-              parentSpan.setStatus({ code: SpanStatusCode.ERROR, message: agentResult.error })
-              return
-            }
-
-            const { code, testResults, score, ms } = agentResult
-            parentSpan.setAttribute('metadata.score', score)
-            ctx.testResults.push({ run, score, testResults, code })
-            updateStatus(`✅ ${(score * 100).toFixed(0)}%`, `(${ms}ms)`)
-
-            // Deliver feedback if needed
-            if (!disableFeedback && !run.isAfterFeedback && score < 1) {
-              updateStatus('💬 reviewing')
-              const feedbackResult = await deliverFeedback(run, code, testResults, parentCtx)
-              if (!feedbackResult.success) {
-                updateStatus(`❌ ${feedbackResult.error}`)
-                parentSpan.setStatus({ code: SpanStatusCode.ERROR, message: feedbackResult.error })
-                return
-              }
-              updateStatus(`✅ ${(score * 100).toFixed(0)}%`, `(${ms}ms) +fb(${feedbackResult.ms}ms)`)
-            }
-
-            if (score === 0) parentSpan.setStatus({ code: SpanStatusCode.ERROR, message: 'Score is 0' })
-          }
-        )
+    startTracing()
+    await runEval({ runs: selected, learning, resume: values.resume, samples, curriculum: profiles?.[0] })
+    break
+  }
+  case 'quick-test': {
+    const selected = selectedRuns()
+    startTracing()
+    await runQuickTest(selected, parsePositive('samples', values.samples))
+    break
+  }
+  case 'report': {
+    const [ref] = rest
+    if (!ref) fail('Missing evalId or results file for "report"')
+    await runReport(ref, values.html)
+    break
+  }
+  case 'rescore': {
+    const [ref] = rest
+    if (!ref) fail('Missing evalId or results file for "rescore"')
+    try {
+      await runRescore(ref)
+    } catch (error) {
+      fail((error as Error).message)
+    }
+    break
+  }
+  case 'compare': {
+    const [beforeRef, afterRef] = rest
+    if (!beforeRef || !afterRef) fail('"compare" expects two evalIds or results files')
+    const threshold = parseThreshold(values.threshold)
+    try {
+      if (!(await runCompare(beforeRef, afterRef, threshold))) process.exit(1)
+    } catch (error) {
+      fail((error as Error).message)
+    }
+    break
+  }
+  case 'dataset': {
+    const [subcommand, ...paths] = rest
+    if (subcommand !== 'validate' && subcommand !== 'generate')
+      fail(subcommand ? `Unknown dataset command "${subcommand}"` : 'Missing dataset command')
+    if (subcommand === 'validate' && values['dry-run']) fail('Option --dry-run is not supported by "dataset validate"')
+    try {
+      if (subcommand === 'validate') {
+        const [runsPath, learningsPath] = paths
+        if (!(await runDatasetValidate({ runsPath, learningsPath, static: values.static }))) process.exit(1)
+      } else {
+        const [specPath, runsPath, learningsPath] = paths
+        if (!specPath) fail('Missing spec file for "dataset generate"')
+        const ok = await runDatasetGenerate({
+          specPath,
+          runsPath,
+          learningsPath,
+          static: values.static,
+          dryRun: values['dry-run']
+        })
+        if (!ok) process.exit(1)
       }
-
-      const avgScore = ctx.testResults.reduce((sum, r) => sum + r.score, 0) / ctx.testResults.length
-      task.title = `Running tests [${total}/${total}] - Complete (Score: ${(avgScore * 100).toFixed(2)}%)`
+    } catch (error) {
+      fail((error as Error).message)
     }
+    break
   }
-])
-
-const ctx = await tasks.run()
-
-const avg = (arr: number[]) => (arr.length ? Math.round(arr.reduce((a, b) => a + b, 0) / arr.length) : 0)
-const avgScore = ctx.testResults.length
-  ? ctx.testResults.reduce((sum, r) => sum + r.score, 0) / ctx.testResults.length
-  : 0
-console.log(`\nRunner finished!`)
-console.log(`Final score: ${(avgScore * 100).toFixed(2)}%`)
-console.log(`Average time: learn=${avg(timings.learn)}ms, task=${avg(timings.task)}ms`)
+}
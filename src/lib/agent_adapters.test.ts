@@ -0,0 +1,104 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import runs from '../../2_runs.json'
+import { agentAdapters } from './agent_adapters'
+import { startMockAgent } from './mock_agent'
+
+const encoder = new TextEncoder()
+
+// Потік SSE, розбитий на довільні фрагменти
+const stream = (...chunks: string[]) =>
+  new Response(
+    new ReadableStream({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(encoder.encode(chunk))
+        controller.close()
+      }
+    })
+  )
+
+const noop = () => {}
+
+test('text sends {text, uid} and validates the reply', async () => {
+  const adapter = agentAdapters.text()
+  expect(adapter.body('Привіт', 'uid')).toEqual({ text: 'Привіт', uid: 'uid' })
+  expect(await adapter.parse(Response.json({ response: 'Так', references: ['a.md'] }), noop)).toEqual({
+    response: 'Так',
+    references: ['a.md']
+  })
+  await expect(adapter.parse(Response.json({ answer: 'Так' }), noop)).rejects.toThrow()
+})
+
+describe('openai', () => {
+  test('keeps the history of each conversation', () => {
+    const adapter = agentAdapters.openai()
+    adapter.remember?.('Перше', 'a', { response: 'Відповідь' })
+    expect(adapter.body('Друге', 'a')).toMatchObject({
+      messages: [
+        { role: 'user', content: 'Перше' },
+        { role: 'assistant', content: 'Відповідь' },
+        { role: 'user', content: 'Друге' }
+      ],
+      user: 'a'
+    })
+    expect(adapter.body('Інше', 'b')).toMatchObject({ messages: [{ role: 'user', content: 'Інше' }], user: 'b' })
+  })
+
+  test('takes the content and reasoning of the first choice', async () => {
+    const completion = { choices: [{ message: { content: 'Код', reasoning_content: 'Думаю' } }] }
+    expect(await agentAdapters.openai().parse(Response.json(completion), noop)).toEqual({
+      response: 'Код',
+      reasoning: 'Думаю'
+    })
+    await expect(agentAdapters.openai().parse(Response.json({ choices: [] }), noop)).rejects.toThrow()
+  })
+})
+
+describe('sse', () => {
+  test('joins deltas across chunks, skips comments and stops at [DONE]', async () => {
+    let firstTokens = 0
+    const reply = await agentAdapters
+      .sse()
+      .parse(
+        stream(
+          ': ping\n\ndata: {"del',
+          'ta": "При"}\r\n\r\ndata: {"delta": "віт", "references": ["a.md"]}\n\n',
+          'data: [DONE]\n\ndata: {"delta": "!"}\n\n'
+        ),
+        () => firstTokens++
+      )
+    expect(reply).toEqual({ response: 'Привіт', references: ['a.md'] })
+    expect(firstTokens).toBeGreaterThan(0)
+  })
+
+  test('a final response replaces the deltas and the stream may end without [DONE]', async () => {
+    const reply = await agentAdapters
+      .sse()
+      .parse(stream('data: {"delta": "чер"}\n\ndata: {"response": "Готово"}'), noop)
+    expect(reply).toEqual({ response: 'Готово' })
+  })
+
+  test('rejects malformed events', async () => {
+    await expect(agentAdapters.sse().parse(stream('data: {"delta": \n\n'), noop)).rejects.toThrow(SyntaxError)
+  })
+})
+
+describe('mock agent protocols', () => {
+  const [run] = runs as [(typeof runs)[0]]
+  const servers = (['openai', 'sse'] as const).map((protocol) => ({
+    protocol,
+    server: startMockAgent({ port: 0, behaviour: 'ideal', protocol })
+  }))
+  afterAll(() => {
+    for (const { server } of servers) server.stop(true)
+  })
+
+  for (const { protocol, server } of servers)
+    test(`the ${protocol} adapter reads the mock agent's answer`, async () => {
+      const adapter = agentAdapters[protocol]()
+      const response = await fetch(server.url, {
+        method: 'POST',
+        body: JSON.stringify(adapter.body('Завдання', run.uuid))
+      })
+      expect((await adapter.parse(response, noop)).response).toBe(`\`\`\`mavka\n${run.private.idealMavkaCode}\n\`\`\``)
+    })
+})
@@ -0,0 +1,136 @@
+import z from 'zod'
+import { type AgentProtocol, agentModel } from '../conf'
+
+// Протоколи агента (`agentProtocol`): як перетворити повідомлення `text` у сесії `uid` на HTTP-запит і як
+// розібрати відповідь. Повтори, timeout, заголовки та заміри часу -- спільні, у `callAgent`
+
+export const expectedServerOutput = z.object({
+  response: z.string(),
+  references: z.array(z.string()).optional(),
+  reasoning: z.string().optional()
+})
+
+export type AgentReply = z.infer<typeof expectedServerOutput>
+
+export interface AgentAdapter {
+  // Тіло POST-запиту (JSON)
+  body(text: string, uid: string): unknown
+  // Додаткові заголовки запиту (напр. `Accept`)
+  headers?: Record<string, string>
+  // Розбирає успішну (2xx) відповідь; `onFirstToken` викликається з першим фрагментом відповіді (лише потокові протоколи)
+  parse(response: Response, onFirstToken: () => void): Promise<AgentReply>
+  // Успішна відповідь на `text` (після всіх повторів) -- напр. зберегти історію розмови
+  remember?(text: string, uid: string, reply: AgentReply): void
+}
+
+// Оригінальний контракт: `{text, uid}` -> `{response, references?, reasoning?}`
+function textAdapter(): AgentAdapter {
+  return {
+    body: (text, uid) => ({ text, uid }),
+    parse: async (response) => expectedServerOutput.parse(await response.json())
+  }
+}
+
+const chatCompletion = z.object({
+  choices: z
+    .array(
+      z.object({
+        message: z.object({
+          content: z.string().nullable(),
+          // Міркування моделі (vLLM, llama.cpp, DeepSeek)
+          reasoning_content: z.string().nullish()
+        })
+      })
+    )
+    .min(1)
+})
+
+interface ChatMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+// OpenAI-сумісний chat-completions endpoint: він не має стану, тож кожен `uid` -- окрема розмова, історію якої
+// runner зберігає в памʼяті та надсилає повністю (після `--resume` розмови починаються спочатку)
+function openAiAdapter(): AgentAdapter {
+  const conversations = new Map<string, ChatMessage[]>()
+  const messages = (text: string, uid: string): ChatMessage[] => [
+    ...(conversations.get(uid) ?? []),
+    { role: 'user', content: text }
+  ]
+  return {
+    body: (text, uid) => ({ model: agentModel, messages: messages(text, uid), user: uid }),
+    parse: async (response) => {
+      const [choice] = chatCompletion.parse(await response.json()).choices
+      return {
+        response: choice?.message.content ?? '',
+        ...(choice?.message.reasoning_content && { reasoning: choice.message.reasoning_content })
+      }
+    },
+    remember: (text, uid, reply) =>
+      conversations.set(uid, [...messages(text, uid), { role: 'assistant', content: reply.response }])
+  }
+}
+
+// Подія SSE: фрагмент відповіді (`delta`) та/або поля фінальної відповіді (`response` замінює зібрані фрагменти)
+const streamEvent = z.object({
+  delta: z.string().optional(),
+  response: z.string().optional(),
+  references: z.array(z.string()).optional(),
+  reasoning: z.string().optional()
+})
+
+// Дані (`data:` рядки) однієї події SSE; події без даних (коментарі, `event:`) пропускаються
+function eventData(event: string): string | undefined {
+  const lines = event
+    .split('\n')
+    .filter((line) => line.startsWith('data:'))
+    .map((line) => line.slice(5).replace(/^ /, ''))
+  return lines.length ? lines.join('\n') : undefined
+}
+
+async function* streamEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder()
+  let buffer = ''
+  for await (const chunk of body) {
+    buffer = (buffer + decoder.decode(chunk, { stream: true })).replace(/\r\n/g, '\n')
+    for (let end = buffer.indexOf('\n\n'); end !== -1; end = buffer.indexOf('\n\n')) {
+      const data = eventData(buffer.slice(0, end))
+      buffer = buffer.slice(end + 2)
+      if (data !== undefined) yield data
+    }
+  }
+  const data = eventData(buffer + decoder.decode())
+  if (data !== undefined) yield data
+}
+
+// Потоковий варіант `/text`: `{text, uid}` -> події `data: {delta?, response?, references?, reasoning?}`,
+// що завершуються `data: [DONE]` чи закриттям зʼєднання
+function sseAdapter(): AgentAdapter {
+  return {
+    body: (text, uid) => ({ text, uid }),
+    headers: { Accept: 'text/event-stream' },
+    parse: async (response, onFirstToken) => {
+      if (!response.body) throw new SyntaxError('Empty event stream')
+      let reply: AgentReply = { response: '' }
+      for await (const data of streamEvents(response.body)) {
+        if (data === '[DONE]') break
+        const event = streamEvent.parse(JSON.parse(data))
+        if (event.delta || event.response) onFirstToken()
+        reply = {
+          ...reply,
+          response: event.response ?? reply.response + (event.delta ?? ''),
+          ...(event.references && { references: event.references }),
+          ...(event.reasoning && { reasoning: event.reasoning })
+        }
+      }
+      return reply
+    }
+  }
+}
+
+export const agentAdapters: Record<AgentProtocol, () => AgentAdapter> = {
+  text: textAdapter,
+  openai: openAiAdapter,
+  sse: sseAdapter
+}
@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'bun:test'
+import runs from '../../2_runs.json'
+import { analyzeMavkaCode, formatDiagnostic } from './analyze_mavka'
+
+const codes = (code: string) => analyzeMavkaCode(code).map((d) => d.code)
+
+describe('analyzeMavkaCode', () => {
+  test('accepts every idealMavkaCode without errors', () => {
+    for (const run of runs)
+      expect(analyzeMavkaCode(run.private.idealMavkaCode).filter((d) => d.severity === 'error')).toEqual([])
+  })
+
+  test('requires a top-level `алгоритм` action', () => {
+    expect(codes('дія рахувати(а)\n  вернути а\nкінець')).toEqual(['misnamed-algorithm'])
+    expect(codes('а = 1')).toContain('missing-algorithm')
+  })
+
+  test('flags top-level calls and statements', () => {
+    const diagnostics = codes('дія алгоритм(а)\n  вернути а\nкінець\nдрук(алгоритм(1))\nб = 2')
+    expect(diagnostics).toEqual(['top-level-side-effect', 'top-level-statement'])
+  })
+
+  test('flags return inside перебрати, but not after the loop', () => {
+    const code = 'дія алгоритм(с)\n  перебрати с як х\n    вернути х\n  кінець\n  вернути 0\nкінець'
+    expect(analyzeMavkaCode(code).map((d) => [d.code, d.line])).toEqual([['return-in-loop', 3]])
+  })
+
+  test('ignores strings and comments for language quirks', () => {
+    const code = 'дія алгоритм(а)\n  ;; та latin\n  вернути "та latin"\nкінець'
+    expect(codes(code)).toEqual([])
+  })
+
+  test('reports quirks with their nuance file', () => {
+    const code = 'дія алгоритм(с)\n  якщо с.довжина > 0 та дійсне\n    вернути 1\n  кінець\n  вернути 0\nкінець'
+    const diagnostics = analyzeMavkaCode(code)
+    expect(diagnostics.map((d) => d.code)).toEqual(['list-length', 'and-operator'])
+    expect(diagnostics[1]?.nuance).toBe('01_оператор_та.md')
+  })
+
+  test('flags characters that break the parser, even in strings', () => {
+    expect(codes('дія алгоритм(а)\n  вернути "а — б 漢"\nкінець')).toEqual(['em-dash', 'unsupported-characters'])
+  })
+})
+
+test('formatDiagnostic includes position and code', () => {
+  const [diagnostic] = analyzeMavkaCode('дія алгоритм(а)\n  вернути value\nкінець')
+  expect(diagnostic && formatDiagnostic(diagnostic)).toBe(
+    '⛔ 2:11 [latin-identifier] Латинські літери в коді ("value") -- назви мають бути кирилицею'
+  )
+})
@@ -0,0 +1,228 @@
+// Статичний аналіз коду агента перед запуском тестів: вимоги промпту (єдина `дія алгоритм` без інструкцій
+// на верхньому рівні) та відомі особливості Мавки з `1_learning/3_nuances`. Діагностики не зупиняють тестування.
+
+export interface Diagnostic {
+  code: DiagnosticCode
+  severity: 'error' | 'warning'
+  message: string
+  line: number
+  column?: number
+  // Файл з `1_learning/3_nuances`, що описує проблему
+  nuance?: string
+}
+
+export type DiagnosticCode =
+  | 'missing-algorithm'
+  | 'misnamed-algorithm'
+  | 'top-level-side-effect'
+  | 'top-level-statement'
+  | 'latin-identifier'
+  | 'unsupported-characters'
+  | 'em-dash'
+  | 'and-operator'
+  | 'return-in-loop'
+  | 'loop-syntax'
+  | 'list-length'
+  | 'standard-library'
+  | 'math-in-condition'
+
+// Замінює вміст текстів та коментарів пробілами (рядки й позиції зберігаються), щоби шукати лише в коді
+function maskLiterals(code: string): string {
+  let result = ''
+  let state: 'code' | 'string' | 'line-comment' | 'block-comment' = 'code'
+  for (let i = 0; i < code.length; i++) {
+    const c = code[i] as string
+    const next = code[i + 1]
+    if (c === '\n') {
+      if (state === 'line-comment') state = 'code'
+      result += c
+    } else if (state === 'code') {
+      if (c === ';' && next === ';') state = 'line-comment'
+      else if (c === ';' && next === '*') state = 'block-comment'
+      else if (c === '"') state = 'string'
+      result += state === 'code' || state === 'string' ? c : ' '
+    } else if (state === 'string') {
+      if (c === '\\') {
+        result += next === '\n' ? ' \n' : '  '
+        i++
+      } else if (c === '"') {
+        state = 'code'
+        result += c
+      } else result += ' '
+    } else if (state === 'block-comment' && c === '*' && next === ';') {
+      state = 'code'
+      result += '  '
+      i++
+    } else result += ' '
+  }
+  return result
+}
+
+const blockOpeners = ['дія', 'якщо', 'поки', 'перебрати', 'спробувати', 'структура', 'модуль']
+
+// Ключове слово на початку рядка (`якщо`, `кінець`, ...) або порожній рядок
+const leadingWord = (line: string) => line.trim().match(/^[\p{L}_ʼ']+/u)?.[0] ?? ''
+
+// Чи відкриває рядок блок, що закривається `кінець` (`дія(а): а + б` та `інакше якщо` -- ні)
+function opensBlock(line: string): boolean {
+  const word = leadingWord(line)
+  if (!blockOpeners.includes(word)) return /=\s*дія\s*\(/.test(line) && !/\)\s*:/.test(line)
+  if (word === 'дія') return !/\)\s*:/.test(line)
+  return true
+}
+
+export function analyzeMavkaCode(code: string): Diagnostic[] {
+  const diagnostics: Diagnostic[] = []
+  const lines = code.split('\n')
+  const masked = maskLiterals(code).split('\n')
+  const add = (diagnostic: Diagnostic) => diagnostics.push(diagnostic)
+
+  // --- Символи (у текстах та коментарях теж ламають парсер) ---
+
+  for (const [i, line] of lines.entries()) {
+    const dash = line.indexOf('—')
+    if (dash !== -1)
+      add({
+        code: 'em-dash',
+        severity: 'error',
+        message: 'Довге тире (—) ламає парсер -- використовуйте дефіс (-)',
+        line: i + 1,
+        column: dash + 1,
+        nuance: '13_тире_ламає_парсер.md'
+      })
+    const foreign = line.match(/[^\p{Script=Cyrillic}\p{Script=Latin}\p{Script=Common}\p{Script=Inherited}]/u)
+    if (foreign?.index !== undefined)
+      add({
+        code: 'unsupported-characters',
+        severity: 'error',
+        message: `Символ "${foreign[0]}" не вдасться перекодувати -- дозволені лише кирилиця та латиниця`,
+        line: i + 1,
+        column: foreign.index + 1,
+        nuance: '14_не_кириличні_символи.md'
+      })
+  }
+
+  // --- Структура: дії та інструкції верхнього рівня ---
+
+  let depth = 0
+  const topLevelActions: { name: string; line: number }[] = []
+  const blocks: string[] = []
+  for (const [i, line] of masked.entries()) {
+    const word = leadingWord(line)
+    const lineNumber = i + 1
+    if (!line.trim()) continue
+
+    if (depth === 0) {
+      const action = line.match(/^\s*дія\s+([\p{L}_ʼ'\d]+)\s*\(/u) ?? line.match(/^\s*([\p{L}_ʼ'\d]+)\s*=\s*дія\s*\(/u)
+      if (action?.[1]) topLevelActions.push({ name: action[1], line: lineNumber })
+      else if (word === 'друк' || /^\s*[\p{L}_ʼ'\d.]+\s*\(/u.test(line))
+        add({
+          code: 'top-level-side-effect',
+          severity: 'error',
+          message: `Виклик на верхньому рівні (${lines[i]?.trim()}) -- код має містити лише дію \`алгоритм\``,
+          line: lineNumber
+        })
+      else if (word !== 'кінець' && word !== 'взяти')
+        add({
+          code: 'top-level-statement',
+          severity: 'warning',
+          message: `Інструкція на верхньому рівні (${lines[i]?.trim()}) -- код має містити лише дію \`алгоритм\``,
+          line: lineNumber
+        })
+    }
+
+    if (word === 'вернути' && blocks.includes('перебрати'))
+      add({
+        code: 'return-in-loop',
+        severity: 'warning',
+        message: '`вернути` всередині `перебрати` спричиняє помилку виконання -- накопичуйте результат у змінній',
+        line: lineNumber,
+        nuance: '02_повернення_в_циклах.md'
+      })
+
+    if (opensBlock(line)) {
+      blocks.push(word)
+      depth++
+    } else if (word === 'кінець') {
+      blocks.pop()
+      depth = Math.max(0, depth - 1)
+    }
+  }
+
+  if (!topLevelActions.some((a) => a.name === 'алгоритм')) {
+    const [other] = topLevelActions
+    add(
+      other
+        ? {
+            code: 'misnamed-algorithm',
+            severity: 'error',
+            message: `Дію названо \`${other.name}\` -- вона має називатися \`алгоритм\``,
+            line: other.line
+          }
+        : { code: 'missing-algorithm', severity: 'error', message: 'Не знайдено `дія алгоритм(...)`', line: 1 }
+    )
+  }
+
+  // --- Відомі особливості мови (лише в коді, без текстів та коментарів) ---
+
+  for (const [i, line] of masked.entries()) {
+    const lineNumber = i + 1
+    const latin = line.match(/[A-Za-z]+/)
+    if (latin?.index !== undefined)
+      add({
+        code: 'latin-identifier',
+        severity: 'error',
+        message: `Латинські літери в коді ("${latin[0]}") -- назви мають бути кирилицею`,
+        line: lineNumber,
+        column: latin.index + 1,
+        nuance: '16_латинські_символи_заборонені.md'
+      })
+    const and = line.match(/(?<![\p{L}_])та(?![\p{L}_])/u)
+    if (and?.index !== undefined)
+      add({
+        code: 'and-operator',
+        severity: 'error',
+        message: 'Оператор `та` не працює -- використовуйте вкладені `якщо`',
+        line: lineNumber,
+        column: and.index + 1,
+        nuance: '01_оператор_та.md'
+      })
+    if (/^\s*перебрати\s+\S+\s+(в|у)\s/.test(line) || /^\s*для\s/.test(line))
+      add({
+        code: 'loop-syntax',
+        severity: 'error',
+        message: 'Перебір записується як `перебрати <список> як <елемент>`',
+        line: lineNumber,
+        nuance: '03_синтаксис_циклу.md'
+      })
+    if (line.includes('.довжина'))
+      add({
+        code: 'list-length',
+        severity: 'warning',
+        message: 'Розмір списку -- це властивість `.розмір` (без дужок), а не `.довжина`',
+        line: lineNumber,
+        nuance: '15_розмір_списку.md'
+      })
+    if (/взяти\s+(біб|пак)|математика\./.test(line))
+      add({
+        code: 'standard-library',
+        severity: 'warning',
+        message: 'Стандартна бібліотека ненадійна -- реалізуйте потрібні функції вручну',
+        line: lineNumber,
+        nuance: '17_стандартна_бібліотека_ненадійна.md'
+      })
+    if (/^\s*(якщо|поки|інакше якщо)\s.*(\*|\/|%|\s[+-]\s)/.test(line))
+      add({
+        code: 'math-in-condition',
+        severity: 'warning',
+        message: 'Арифметика в умові ненадійна -- обчисліть значення в змінну перед порівнянням',
+        line: lineNumber,
+        nuance: '04_математика_в_порівняннях.md'
+      })
+  }
+
+  return diagnostics.sort((a, b) => a.line - b.line || (a.column ?? 0) - (b.column ?? 0))
+}
+
+export const formatDiagnostic = (d: Diagnostic) =>
+  `${d.severity === 'error' ? '⛔' : '⚠️'} ${d.line}${d.column ? `:${d.column}` : ''} [${d.code}] ${d.message}`
@@ -0,0 +1,48 @@
+import { afterAll, beforeAll, describe, expect, spyOn, test } from 'bun:test'
+import { agentRetry } from '../conf'
+import { AgentCallError, agentCallStats, CircuitOpenError, callAgent, resetAgentCallStats } from './call_agent'
+
+const fetchSpy = spyOn(globalThis, 'fetch')
+const reply = (body: string, status = 200) =>
+  Object.assign(async () => new Response(body, { status }), { preconnect: fetch.preconnect })
+const ok = reply(JSON.stringify({ response: 'Готово' }))
+
+const retry = { ...agentRetry }
+beforeAll(() => Object.assign(agentRetry, { baseDelayMs: 1, maxDelayMs: 1 }))
+afterAll(() => {
+  Object.assign(agentRetry, retry)
+  fetchSpy.mockRestore()
+})
+
+describe('callAgent', () => {
+  test('retries server errors and reports the attempts', async () => {
+    fetchSpy.mockImplementationOnce(reply('Bad Gateway', 502)).mockImplementationOnce(ok)
+    const retries = agentCallStats.retries
+    expect(await callAgent('Привіт', 'uid')).toMatchObject({ response: 'Готово', attempts: 2 })
+    expect(agentCallStats.retries).toBe(retries + 1)
+  })
+
+  test('does not retry client errors or malformed responses', async () => {
+    fetchSpy.mockImplementationOnce(reply('Not Found', 404))
+    await expect(callAgent('Привіт', 'uid')).rejects.toMatchObject({ message: 'HTTP error: 404 ', retryable: false })
+    for (const body of ['{"response": ', '{"text": "Готово"}']) {
+      fetchSpy.mockImplementationOnce(reply(body))
+      const error = await callAgent('Привіт', 'uid').catch((e) => e)
+      expect(error).toBeInstanceOf(AgentCallError)
+      expect(error.retryable).toBe(false)
+    }
+  })
+
+  test('opens the circuit after consecutive failed calls', async () => {
+    fetchSpy.mockImplementation(reply('Service Unavailable', 503))
+    for (let i = 0; i < agentRetry.circuitBreakerThreshold; i++)
+      await expect(callAgent('Привіт', 'uid')).rejects.toBeInstanceOf(AgentCallError)
+    expect(agentCallStats.circuitOpen).toBe(true)
+    await expect(callAgent('Привіт', 'uid')).rejects.toBeInstanceOf(CircuitOpenError)
+  })
+
+  test('resets the counters but keeps the circuit open', () => {
+    resetAgentCallStats()
+    expect(agentCallStats).toEqual({ calls: 0, attempts: 0, retries: 0, failedCalls: 0, circuitOpen: true })
+  })
+})
@@ -1,50 +1,149 @@
+import { trace } from '@opentelemetry/api'
 import z from 'zod'
-import { AgentUrl, agentTimeoutMs } from '../conf'
+import { AgentUrl, agentBearerToken, agentHeaders, agentProtocol, agentRetry, agentTimeoutMs } from '../conf'
+import { type AgentAdapter, type AgentReply, agentAdapters } from './agent_adapters'
 
-const expectedServerOutput = z.object({
-  response: z.string(),
-  references: z.array(z.string()).optional(),
-  reasoning: z.string().optional()
-})
-
-export type AgentResponse = z.infer<typeof expectedServerOutput> & { ms: number }
+export type AgentResponse = AgentReply & {
+  ms: number
+  // Час до першого фрагменту відповіді (лише потокові протоколи, `sse`)
+  ttftMs?: number
+  attempts: number
+}
 
 export class AgentCallError extends Error {
   public readonly reason?: unknown
+  // Чи має сенс повторити запит (timeout, 5xx, мережеві помилки)
+  public readonly retryable: boolean
 
-  constructor(message: string, reason?: unknown) {
+  constructor(message: string, reason?: unknown, retryable = false) {
     super(message)
     this.name = 'AgentCallError'
     this.reason = reason
+    this.retryable = retryable
   }
 }
 
-export async function callAgent(text: string, uid: string): Promise<AgentResponse> {
+// Агент недоступний -- eval слід перервати (навмисно не `AgentCallError`, щоб не перетворюватись на провалений запуск)
+export class CircuitOpenError extends Error {
+  constructor(failures: number) {
+    super(`Agent appears to be down: ${failures} consecutive calls failed, aborting eval`)
+    this.name = 'CircuitOpenError'
+  }
+}
+
+export interface AgentCallStats {
+  calls: number
+  attempts: number
+  retries: number
+  failedCalls: number
+  circuitOpen: boolean
+}
+
+export const agentCallStats: AgentCallStats = { calls: 0, attempts: 0, retries: 0, failedCalls: 0, circuitOpen: false }
+let consecutiveFailures = 0
+
+// Окремі лічильники для кожного з кількох eval в одному процесі (`--curriculum a,b`); стан circuit breaker лишається
+export function resetAgentCallStats() {
+  Object.assign(agentCallStats, { calls: 0, attempts: 0, retries: 0, failedCalls: 0 })
+}
+
+// Створюється з першим викликом (після `configure`) і живе весь процес -- адаптер може зберігати історію розмов
+let adapter: AgentAdapter | undefined
+
+async function callAgentOnce(text: string, uid: string): Promise<Omit<AgentResponse, 'attempts'>> {
+  adapter ??= agentAdapters[agentProtocol]()
   const controller = new AbortController()
   const timeoutId = setTimeout(() => controller.abort(), agentTimeoutMs)
   const start = performance.now()
+  let ttftMs: number | undefined
 
   try {
     const response = await fetch(AgentUrl, {
-      body: JSON.stringify({ text: text, uid }),
+      body: JSON.stringify(adapter.body(text, uid)),
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: {
+        'Content-Type': 'application/json',
+        ...adapter.headers,
+        ...(agentBearerToken && { Authorization: `Bearer ${agentBearerToken}` }),
+        ...agentHeaders
+      },
       signal: controller.signal
     })
 
     if (!response.ok) {
-      throw new AgentCallError(`HTTP error: ${response.status} ${response.statusText}`)
+      throw new AgentCallError(
+        `HTTP error: ${response.status} ${response.statusText}`,
+        undefined,
+        response.status >= 500
+      )
     }
 
-    const json = expectedServerOutput.parse(await response.json())
-    return { ...json, ms: Math.round(performance.now() - start) }
+    // Timeout охоплює і читання відповіді (зокрема потоку SSE)
+    const reply = await adapter.parse(response, () => {
+      ttftMs ??= Math.round(performance.now() - start)
+    })
+    return { ...reply, ms: Math.round(performance.now() - start), ...(ttftMs !== undefined && { ttftMs }) }
   } catch (error) {
     if (error instanceof AgentCallError) throw error
     if (error instanceof Error && error.name === 'AbortError') {
-      throw new AgentCallError(`Timeout after ${agentTimeoutMs / 1000} seconds`)
+      throw new AgentCallError(`Timeout after ${agentTimeoutMs / 1000} seconds`, undefined, true)
     }
-    throw new AgentCallError('Agent call failed', error)
+    // Помилки схеми чи некоректний JSON -- не повторюємо
+    if (error instanceof z.ZodError || error instanceof SyntaxError)
+      throw new AgentCallError('Agent call failed', error)
+    throw new AgentCallError('Agent call failed', error, true)
   } finally {
     clearTimeout(timeoutId)
   }
 }
+
+// Експоненційна затримка з jitter: випадкове значення між половиною та повною затримкою
+function backoffMs(attempt: number): number {
+  const delay = Math.min(agentRetry.maxDelayMs, agentRetry.baseDelayMs * 2 ** (attempt - 1))
+  return Math.round(delay / 2 + (Math.random() * delay) / 2)
+}
+
+export async function callAgent(text: string, uid: string): Promise<AgentResponse> {
+  if (agentCallStats.circuitOpen) throw new CircuitOpenError(consecutiveFailures)
+  agentCallStats.calls++
+  const span = trace.getActiveSpan()
+
+  for (let attempt = 1; ; attempt++) {
+    agentCallStats.attempts++
+    if (attempt > 1) agentCallStats.retries++
+    const start = performance.now()
+    try {
+      const result = await callAgentOnce(text, uid)
+      adapter?.remember?.(text, uid, result)
+      span?.addEvent('agent.attempt', {
+        attempt,
+        ms: result.ms,
+        success: true,
+        ...(result.ttftMs !== undefined && { ttftMs: result.ttftMs })
+      })
+      span?.setAttribute('metadata.agent_attempts', attempt)
+      if (result.ttftMs !== undefined) span?.setAttribute('metadata.agent_ttft_ms', result.ttftMs)
+      consecutiveFailures = 0
+      return { ...result, attempts: attempt }
+    } catch (error) {
+      const callError = error as AgentCallError
+      span?.addEvent('agent.attempt', {
+        attempt,
+        ms: Math.round(performance.now() - start),
+        success: false,
+        error: callError.message,
+        retryable: callError.retryable
+      })
+      span?.setAttribute('metadata.agent_attempts', attempt)
+
+      if (!callError.retryable || attempt >= agentRetry.maxAttempts) {
+        agentCallStats.failedCalls++
+        if (callError.retryable && ++consecutiveFailures >= agentRetry.circuitBreakerThreshold) {
+          agentCallStats.circuitOpen = true
+        }
+        throw callError
+      }
+      await Bun.sleep(backoffMs(attempt))
+    }
+  }
+}
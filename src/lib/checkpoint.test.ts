@@ -0,0 +1,110 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { configure, disableFeedback, repairRounds } from '../conf'
+import {
+  blockingError,
+  isConflictingLearned,
+  isFeedbackDelivered,
+  isRepairDone,
+  isRunComplete,
+  isTested,
+  needsFeedback,
+  needsRepair,
+  readCheckpoint
+} from './checkpoint'
+import { type RepairRound, type RunRecord, runRecordBase } from './results'
+
+const first = (overrides: Partial<RunRecord>): RunRecord => ({
+  ...runRecordBase(
+    {
+      uuid: '00000000-0000-4000-8000-000000000001',
+      uuidFeedback: '00000000-0000-4000-8000-000000000002',
+      algorithm: { number: 18, name: 'Алгоритм' },
+      type: 'implement',
+      isConflicted: false,
+      isAfterFeedback: false
+    },
+    2
+  ),
+  ...overrides
+})
+
+describe('run stages', () => {
+  test('a run is tested once it has a score', () => {
+    expect(isTested(first({}))).toBe(false)
+    expect(isTested(first({ error: 'HTTP 500' }))).toBe(false)
+    expect(isTested(first({ score: 0 }))).toBe(true)
+  })
+
+  test('only an imperfect first run needs feedback', () => {
+    expect(needsFeedback(first({ score: 0.5 }))).toBe(true)
+    expect(needsFeedback(first({ score: 1 }))).toBe(false)
+    expect(needsFeedback(first({ score: 0.5, isAfterFeedback: true }))).toBe(false)
+  })
+
+  test('a run needing feedback is complete only once the feedback is delivered', () => {
+    expect(isRunComplete(first({ score: 1 }))).toBe(true)
+    expect(isRunComplete(first({ score: 0.5 }))).toBe(false)
+    const failed = first({ score: 0.5, feedback: { text: 'Підказка', error: 'HTTP 500' } })
+    expect(isFeedbackDelivered(failed)).toBe(false)
+    expect(isRunComplete(first({ score: 0.5, feedback: { text: 'Підказка', response: 'Дякую' } }))).toBe(true)
+  })
+
+  test('conflicting docs are learned once', () => {
+    expect(isConflictingLearned(first({}))).toBe(false)
+    expect(isConflictingLearned(first({ timings: { conflictingLearnMs: 0, totalMs: 0 } }))).toBe(true)
+  })
+})
+
+describe('repair rounds', () => {
+  const previous = repairRounds
+  beforeAll(() => configure({ repairRounds: 2 }))
+  afterAll(() => configure({ repairRounds: previous }))
+
+  const round = { score: 0.5 } as RepairRound
+
+  test('only an imperfect run needs repair', () => {
+    expect(needsRepair(first({ score: 0.5 }))).toBe(true)
+    expect(needsRepair(first({ score: 1 }))).toBe(false)
+    expect(needsRepair(first({ error: 'HTTP 500' }))).toBe(false)
+  })
+
+  test('repair is done once solved or out of rounds, and repeated after an error', () => {
+    expect(isRepairDone(first({ repair: { rounds: [round] } }))).toBe(false)
+    expect(isRepairDone(first({ repair: { rounds: [round], solvedRound: 1 } }))).toBe(true)
+    expect(isRepairDone(first({ repair: { rounds: [round, round] } }))).toBe(true)
+    expect(isRepairDone(first({ repair: { rounds: [round], error: 'HTTP 500' } }))).toBe(false)
+  })
+
+  test('a run needing repair is complete only once the repair is done', () => {
+    const overrides = { score: 0.5, feedback: { text: 'Підказка', response: 'Дякую' } }
+    expect(isRunComplete(first(overrides))).toBe(false)
+    expect(isRunComplete(first({ ...overrides, repair: { rounds: [round, round] } }))).toBe(true)
+  })
+})
+
+describe('blockingError', () => {
+  const previous = { repairRounds, disableFeedback }
+  beforeAll(() => configure({ repairRounds: 2, disableFeedback: false }))
+  afterAll(() => configure(previous))
+
+  test('reports an agent error of the first run', () => {
+    expect(blockingError(first({ error: 'HTTP 500' }))).toBe('Run 3 was not tested: HTTP 500')
+  })
+
+  test('reports a failed repair instead of missing feedback', () => {
+    const record = first({ score: 0.5, repair: { rounds: [], error: 'Agent timeout' } })
+    expect(isRunComplete(record)).toBe(false)
+    expect(blockingError(record)).toBe('Repair of run 3 failed: Agent timeout')
+  })
+
+  test('reports undelivered feedback after a finished repair', () => {
+    const record = first({ score: 0.5, repair: { rounds: [], solvedRound: 1 }, feedback: { error: 'Cache miss' } })
+    expect(blockingError(record)).toBe('Feedback for run 3 was not delivered: Cache miss')
+  })
+})
+
+test('readCheckpoint reports a missing checkpoint', async () => {
+  await expect(readCheckpoint('no-such-eval')).rejects.toThrow(
+    /^Checkpoint not found: .*no-such-eval\.checkpoint\.json$/
+  )
+})
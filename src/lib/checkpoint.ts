@@ -0,0 +1,67 @@
+import { mkdirSync } from 'node:fs'
+import { disableFeedback, repairRounds, resultsFolder } from '../conf'
+import type { CurriculumProfile } from './curriculum'
+import { type LearningRecord, type RunRecord, resultsVersion } from './results'
+
+// Проміжний стан eval, що дозволяє продовжити перерваний запуск (`--resume <evalId>`)
+export interface Checkpoint {
+  version: typeof resultsVersion
+  evalId: string
+  startedAt: string
+  // Профіль навчання (`--curriculum`), якщо не `full`
+  curriculum?: CurriculumProfile
+  timings: { learn: number[]; task: number[] }
+  learnings: LearningRecord[]
+  runs: RunRecord[]
+}
+
+const checkpointPath = (evalId: string) => `${resultsFolder}/${evalId}.checkpoint.json`
+
+export async function writeCheckpoint(checkpoint: Checkpoint): Promise<void> {
+  mkdirSync(resultsFolder, { recursive: true })
+  await Bun.write(checkpointPath(checkpoint.evalId), JSON.stringify(checkpoint, null, 2))
+}
+
+export async function readCheckpoint(evalId: string): Promise<Checkpoint> {
+  const file = Bun.file(checkpointPath(evalId))
+  if (!(await file.exists())) throw new Error(`Checkpoint not found: ${checkpointPath(evalId)}`)
+  const checkpoint = (await file.json()) as Checkpoint
+  if (checkpoint.version !== resultsVersion)
+    throw new Error(`Unsupported checkpoint version ${checkpoint.version} (expected ${resultsVersion})`)
+  return checkpoint
+}
+
+// Етапи запуску: навчання конфліктному алгоритму -> виклик агента й тестування -> виправлення -> фідбек.
+// Кожен етап виконується лише раз, щоби агент не отримав те саме повідомлення двічі.
+
+export const isConflictingLearned = (record: RunRecord) => record.timings.conflictingLearnMs !== undefined
+
+export const isTested = (record: RunRecord) => record.score !== undefined
+
+export const needsRepair = (record: RunRecord) => repairRounds > 0 && record.score !== undefined && record.score < 1
+
+// Перерваний раунд (помилка виклику агента) повторюється при продовженні eval
+export const isRepairDone = (record: RunRecord) =>
+  record.repair !== undefined &&
+  record.repair.error === undefined &&
+  (record.repair.solvedRound !== undefined || record.repair.rounds.length >= repairRounds)
+
+export const needsFeedback = (record: RunRecord) =>
+  !disableFeedback && !record.isAfterFeedback && record.score !== undefined && record.score < 1
+
+export const isFeedbackDelivered = (record: RunRecord) =>
+  record.feedback?.response !== undefined && record.feedback.error === undefined
+
+export const isRunComplete = (record: RunRecord) =>
+  isTested(record) &&
+  (!needsRepair(record) || isRepairDone(record)) &&
+  (!needsFeedback(record) || isFeedbackDelivered(record))
+
+// Чому незавершений запуск блокує свого `isAfterFeedback` двійника -- перший незавершений етап
+export function blockingError(record: RunRecord): string {
+  const n = record.index + 1
+  const cause = (error?: string) => (error ? `: ${error}` : '')
+  if (!isTested(record)) return `Run ${n} was not tested${cause(record.error)}`
+  if (needsRepair(record) && !isRepairDone(record)) return `Repair of run ${n} failed${cause(record.repair?.error)}`
+  return `Feedback for run ${n} was not delivered${cause(record.feedback?.error)}`
+}
@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'bun:test'
+import { createComparator, parseComparator } from './comparators'
+
+describe('createComparator', () => {
+  test('exact by default', () => {
+    const comparator = createComparator()
+    expect(comparator.name).toBe('exact')
+    expect(comparator.matches('42', '42')).toBe(true)
+    expect(comparator.matches('42.0', '42')).toBe(false)
+  })
+
+  test('numeric within absolute or relative tolerance', () => {
+    const comparator = createComparator({ name: 'numeric', absTolerance: 0.5 })
+    expect(comparator.matches('10.4', '10')).toBe(true)
+    expect(comparator.matches('10.6', '10')).toBe(false)
+    expect(createComparator({ name: 'numeric', relTolerance: 0.1 }).matches('105', '100')).toBe(true)
+  })
+
+  test('numeric falls back to exact for non-numbers', () => {
+    const comparator = createComparator('numeric')
+    expect(comparator.matches('так', 'так')).toBe(true)
+    expect(comparator.matches('1e3', '1000')).toBe(true)
+  })
+
+  test('text ignores whitespace, punctuation and optionally case', () => {
+    expect(createComparator('text').matches('Привіт, світ!', 'Привіт світ')).toBe(true)
+    expect(createComparator('text').matches('ПРИВІТ', 'привіт')).toBe(false)
+    expect(createComparator({ name: 'text', ignoreCase: true }).matches('ПРИВІТ', 'привіт')).toBe(true)
+  })
+
+  test('list compares items with the item comparator', () => {
+    const comparator = createComparator({ name: 'list', items: { name: 'numeric', absTolerance: 0.01 } })
+    expect(comparator.name).toBe('list(numeric(abs=0.01, rel=0.000001))')
+    expect(comparator.matches('[1.001, [2, 3]]', '[1, [2, 3]]')).toBe(true)
+    expect(comparator.matches('[1, 2]', '[1, 2, 3]')).toBe(false)
+  })
+
+  test('list keeps quoted commas inside one item', () => {
+    const comparator = createComparator('list')
+    expect(comparator.matches('["а, б", "в"]', '[ "а, б" , "в" ]')).toBe(true)
+  })
+})
+
+test('parseComparator rejects unknown comparators', () => {
+  expect(parseComparator(undefined)).toBeUndefined()
+  expect(parseComparator({ name: 'text', ignoreCase: true })).toEqual({ name: 'text', ignoreCase: true })
+  expect(() => parseComparator('fuzzy')).toThrow('Invalid comparator')
+})
@@ -0,0 +1,141 @@
+import z from 'zod'
+
+// Порівняння виводу програми з очікуваним. Задається в `2_runs.json`:
+//  - для запуску: `private.comparator`
+//  - для окремого кейсу: поле `comparator` у JSON-форматі тест-кейсів
+// Значення -- назва (`"numeric"`) або обʼєкт з параметрами (`{ "name": "numeric", "absTolerance": 0.5 }`).
+// За замовчуванням -- `exact`, як і раніше.
+
+export type ComparatorConfig =
+  | 'exact'
+  | 'numeric'
+  | 'text'
+  | 'list'
+  | { name: 'exact' }
+  // Числа рівні, якщо різниця не більша за `absTolerance` або за `relTolerance` * |очікуване|
+  | { name: 'numeric'; absTolerance?: number; relTolerance?: number }
+  // Без урахування пробілів і пунктуації (та, за бажанням, регістру)
+  | { name: 'text'; ignoreCase?: boolean }
+  // Списки `[a, b, [c]]` порівнюються поелементно за `items` (за замовчуванням `exact`)
+  | { name: 'list'; items?: ComparatorConfig }
+
+export const comparatorSchema: z.ZodType<ComparatorConfig> = z.lazy(() =>
+  z.union([
+    z.enum(['exact', 'numeric', 'text', 'list']),
+    z.object({ name: z.literal('exact') }).strict(),
+    z
+      .object({
+        name: z.literal('numeric'),
+        absTolerance: z.number().nonnegative().optional(),
+        relTolerance: z.number().nonnegative().optional()
+      })
+      .strict(),
+    z.object({ name: z.literal('text'), ignoreCase: z.boolean().optional() }).strict(),
+    z.object({ name: z.literal('list'), items: comparatorSchema.optional() }).strict()
+  ])
+)
+
+export interface Comparator {
+  // Назва з параметрами, записується в `TestResult.comparator`
+  name: string
+  matches(actual: string, expected: string): boolean
+}
+
+const defaultTolerance = 1e-6
+
+const exact: Comparator = { name: 'exact', matches: (actual, expected) => actual === expected }
+
+function parseNumber(text: string): number | undefined {
+  const trimmed = text.trim()
+  if (!/^-?\d+(\.\d+)?(e[+-]?\d+)?$/i.test(trimmed)) return undefined
+  return Number(trimmed)
+}
+
+function numeric(absTolerance = defaultTolerance, relTolerance = defaultTolerance): Comparator {
+  return {
+    name: `numeric(abs=${absTolerance}, rel=${relTolerance})`,
+    matches: (actual, expected) => {
+      const a = parseNumber(actual)
+      const e = parseNumber(expected)
+      if (a === undefined || e === undefined) return actual === expected
+      const diff = Math.abs(a - e)
+      return diff <= absTolerance || diff <= relTolerance * Math.abs(e)
+    }
+  }
+}
+
+function text(ignoreCase = false): Comparator {
+  const normalize = (s: string) => {
+    const stripped = s.replace(/[\p{P}\s]+/gu, '')
+    return ignoreCase ? stripped.toLocaleLowerCase('uk') : stripped
+  }
+  return {
+    name: ignoreCase ? 'text(ignoreCase)' : 'text',
+    matches: (actual, expected) => normalize(actual) === normalize(expected)
+  }
+}
+
+// Розбиває `[a, "b, c", [d, e]]` на елементи верхнього рівня; `undefined`, якщо це не список
+function splitList(value: string): string[] | undefined {
+  const trimmed = value.trim()
+  if (!trimmed.startsWith('[') || !trimmed.endsWith(']')) return undefined
+  const body = trimmed.slice(1, -1)
+  if (!body.trim()) return []
+
+  const items: string[] = []
+  let depth = 0
+  let quoted = false
+  let start = 0
+  for (let i = 0; i < body.length; i++) {
+    const c = body[i]
+    if (quoted) {
+      if (c === '\\') i++
+      else if (c === '"') quoted = false
+    } else if (c === '"') quoted = true
+    else if (c === '[' || c === '{') depth++
+    else if (c === ']' || c === '}') depth--
+    else if (c === ',' && depth === 0) {
+      items.push(body.slice(start, i).trim())
+      start = i + 1
+    }
+  }
+  if (depth !== 0 || quoted) return undefined
+  items.push(body.slice(start).trim())
+  return items
+}
+
+function list(items: Comparator): Comparator {
+  const matches = (actual: string, expected: string): boolean => {
+    const a = splitList(actual)
+    const e = splitList(expected)
+    if (!a || !e) return items.matches(actual.trim(), expected.trim())
+    return a.length === e.length && a.every((item, i) => matches(item, e[i] ?? ''))
+  }
+  return { name: items === exact ? 'list' : `list(${items.name})`, matches }
+}
+
+export function createComparator(config: ComparatorConfig = 'exact'): Comparator {
+  const options: Exclude<ComparatorConfig, string> = typeof config === 'string' ? { name: config } : config
+  switch (options.name) {
+    case 'exact':
+      return exact
+    case 'numeric':
+      return numeric(options.absTolerance, options.relTolerance)
+    case 'text':
+      return text(options.ignoreCase)
+    case 'list':
+      return list(options.items ? createComparator(options.items) : exact)
+  }
+}
+
+export function parseComparator(config: unknown): ComparatorConfig | undefined {
+  if (config === undefined) return undefined
+  const parsed = comparatorSchema.safeParse(config)
+  if (!parsed.success)
+    throw new Error(`Invalid comparator ${JSON.stringify(config)}: ${parsed.error.issues[0]?.message}`)
+  return parsed.data
+}
+
+// `private.comparator` запуску (поле необовʼязкове, тому його немає в типі `2_runs.json`)
+export const runComparator = (run: { private: object }): unknown =>
+  'comparator' in run.private ? run.private.comparator : undefined
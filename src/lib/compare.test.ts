@@ -0,0 +1,104 @@
+import { describe, expect, test } from 'bun:test'
+import { compareResults, formatComparison } from './compare'
+import { computeBreakdown } from './report'
+import { type EvalResults, type RunRecord, resultsVersion, runRecordBase } from './results'
+
+const record = (index: number, type: 'implement' | 'review', score?: number): RunRecord => ({
+  ...runRecordBase(
+    {
+      uuid: `00000000-0000-4000-8000-${String(index).padStart(12, '0')}`,
+      algorithm: { number: index + 1, name: `Алгоритм ${index + 1}` },
+      type,
+      isConflicted: false,
+      isAfterFeedback: false
+    },
+    index
+  ),
+  ...(score === undefined ? { error: 'Agent call failed' } : { score })
+})
+
+const results = (evalId: string, runs: RunRecord[]): EvalResults => {
+  const breakdown = computeBreakdown(runs)
+  return {
+    version: resultsVersion,
+    evalId,
+    mode: 'full',
+    startedAt: '',
+    finishedAt: '',
+    agentUrl: '',
+    score: breakdown.categories.overall?.score ?? 0,
+    breakdown,
+    timings: { learn: [], task: [] },
+    agentCalls: { calls: 0, attempts: 0, retries: 0, failedCalls: 0, circuitOpen: false },
+    learnings: [],
+    runs
+  }
+}
+
+describe('compareResults', () => {
+  test('passes when scores hold', () => {
+    const before = results('a', [record(0, 'implement', 1), record(1, 'review', 0.5)])
+    const after = results('b', [record(0, 'implement', 1), record(1, 'review', 0.5)])
+    expect(compareResults(before, after, 0.02).regressions).toEqual([])
+  })
+
+  test('flags a drop beyond the threshold', () => {
+    const before = results('a', [record(0, 'implement', 1), record(1, 'review', 1)])
+    const after = results('b', [record(0, 'implement', 1), record(1, 'review', 0.5)])
+    const { regressions, categories } = compareResults(before, after, 0.02)
+    expect(regressions).toContain('review: 100.00% -> 50.00%')
+    expect(categories.overall?.delta).toBeCloseTo(-0.25)
+  })
+
+  test('counts errored runs as 0', () => {
+    const before = results('a', [record(0, 'implement', 0.9), record(1, 'implement', 0.9)])
+    // Бал без помилок зріс би до 100%
+    const after = results('b', [record(0, 'implement', 1), record(1, 'implement')])
+    const { regressions, categories } = compareResults(before, after, 0.02)
+    expect(categories.implement?.after).toBeCloseTo(0.5)
+    expect(regressions.some((r) => r.startsWith('implement:'))).toBe(true)
+  })
+
+  test('flags an eval where every run errored', () => {
+    const before = results('a', [record(0, 'implement', 0.9)])
+    const after = results('b', [record(0, 'implement')])
+    const { regressions, overall } = compareResults(before, after, 0.02)
+    expect(overall.delta).toBeCloseTo(-0.9)
+    expect(regressions).toContain('overall: 90.00% -> 0.00%')
+  })
+
+  test('flags a category missing from the new eval', () => {
+    const before = results('a', [record(0, 'implement', 1), record(1, 'review', 1)])
+    const after = results('b', [record(0, 'implement', 1)])
+    expect(compareResults(before, after, 0.02).regressions).toContain('review: 100.00% -> no runs')
+  })
+
+  test('lists newly failing and passing test cases and runs missing from one eval', () => {
+    const first = record(0, 'implement', 0.5)
+    const cases = (passed: boolean[]) =>
+      passed.map((p, i) => ({
+        passed: p,
+        outcome: p ? ('passed' as const) : ('failed' as const),
+        input: String(i),
+        expected: '1',
+        actual: p ? '1' : '0',
+        comparator: 'exact'
+      }))
+    const before = results('a', [{ ...first, testResults: cases([true, false]) }, record(1, 'review', 1)])
+    const after = results('b', [{ ...first, testResults: cases([false, true]) }])
+    const [run, missing] = compareResults(before, after, 0.02).runs
+    expect(run?.newlyFailing).toEqual([{ input: '0', expected: '1', before: '1', after: '0' }])
+    expect(run?.newlyPassing.map((c) => c.input)).toEqual(['1'])
+    expect(missing?.missing).toBe('after')
+  })
+})
+
+test('formatComparison reports the gate result', () => {
+  const before = results('a', [record(0, 'implement', 1)])
+  expect(formatComparison(compareResults(before, results('b', [record(0, 'implement', 1)]), 0.02))).toContain(
+    'No regressions beyond 2.00%'
+  )
+  expect(formatComparison(compareResults(before, results('b', [record(0, 'implement', 0)]), 0.02))).toContain(
+    'Regressions beyond 2.00%:\n  overall: 100.00% -> 0.00%'
+  )
+})
@@ -0,0 +1,171 @@
+import { type CategoryScore, computeBreakdown } from './report'
+import { type EvalResults, type RunRecord, runLabel } from './results'
+import type { Interval } from './stats'
+import type { TestResult } from './types'
+
+export interface ScoreDelta {
+  before: number
+  after: number
+  delta: number
+}
+
+export interface CaseChange {
+  input: string
+  expected: string
+  before: string
+  after: string
+}
+
+export interface RunDiff {
+  uuid: string
+  label: string
+  score?: ScoreDelta
+  latency?: ScoreDelta
+  errorBefore?: string
+  errorAfter?: string
+  // Запуск присутній лише в одному з двох eval
+  missing?: 'before' | 'after'
+  newlyFailing: CaseChange[]
+  newlyPassing: CaseChange[]
+}
+
+export interface Comparison {
+  before: string
+  after: string
+  threshold: number
+  overall: ScoreDelta
+  categories: Record<string, ScoreDelta>
+  latency: ScoreDelta
+  // 95% інтервали загального балу, якщо обидва eval мали кілька спроб кожного запуску (`--samples`)
+  overallInterval?: { before: Interval; after: Interval }
+  runs: RunDiff[]
+  // Порушення порогу регресії (порожній список -- eval пройшов перевірку)
+  regressions: string[]
+}
+
+const delta = (before: number, after: number): ScoreDelta => ({ before, after, delta: after - before })
+
+const pct = (n: number) => `${(n * 100).toFixed(2)}%`
+
+const avg = (arr: number[]) => (arr.length ? arr.reduce((a, b) => a + b, 0) / arr.length : 0)
+
+// Тест-кейси зіставляються за позицією, якщо вхідні дані збігаються, інакше -- за вхідними даними
+function matchCase(cases: TestResult[], index: number, input: string): TestResult | undefined {
+  const sameIndex = cases[index]
+  if (sameIndex?.input === input) return sameIndex
+  return cases.find((c) => c.input === input)
+}
+
+function diffRun(before: RunRecord | undefined, after: RunRecord | undefined): RunDiff {
+  const record = (after ?? before) as RunRecord
+  const diff: RunDiff = { uuid: record.uuid, label: runLabel(record), newlyFailing: [], newlyPassing: [] }
+  if (!before) return { ...diff, missing: 'before' }
+  if (!after) return { ...diff, missing: 'after' }
+
+  diff.errorBefore = before.error
+  diff.errorAfter = after.error
+  if (before.score !== undefined && after.score !== undefined) diff.score = delta(before.score, after.score)
+  if (before.timings.agentMs !== undefined && after.timings.agentMs !== undefined)
+    diff.latency = delta(before.timings.agentMs, after.timings.agentMs)
+
+  after.testResults.forEach((result, i) => {
+    const previous = matchCase(before.testResults, i, result.input)
+    if (!previous || previous.passed === result.passed) return
+    const change = { input: result.input, expected: result.expected, before: previous.actual, after: result.actual }
+    if (result.passed) diff.newlyPassing.push(change)
+    else diff.newlyFailing.push(change)
+  })
+  return diff
+}
+
+// Бал категорії для перевірки регресій: запуски з помилкою рахуються як 0, інакше нові помилки підняли б бал
+const gateScore = (c: CategoryScore) => (c.scored + c.errors ? (c.score * c.scored) / (c.scored + c.errors) : 0)
+
+// Запуски зіставляються за `uuid`, який стабільний між eval
+export function compareResults(before: EvalResults, after: EvalResults, threshold: number): Comparison {
+  const beforeRuns = new Map(before.runs.map((r) => [r.uuid, r]))
+  const afterRuns = new Map(after.runs.map((r) => [r.uuid, r]))
+  const uuids = [...new Set([...beforeRuns.keys(), ...afterRuns.keys()])]
+  const runs = uuids.map((uuid) => diffRun(beforeRuns.get(uuid), afterRuns.get(uuid)))
+
+  const beforeBreakdown = computeBreakdown(before.runs)
+  const afterBreakdown = computeBreakdown(after.runs)
+  const categories: Record<string, ScoreDelta> = {}
+  const regressions: string[] = []
+  for (const [name, b] of Object.entries(beforeBreakdown.categories)) {
+    if (!b.scored) continue
+    const a = afterBreakdown.categories[name]
+    // Категорія, що зникла з нового eval, -- теж регресія
+    if (!a || !(a.scored + a.errors)) {
+      regressions.push(`${name}: ${pct(gateScore(b))} -> no runs`)
+      continue
+    }
+    const change = delta(gateScore(b), gateScore(a))
+    categories[name] = change
+    if (change.delta < -threshold) regressions.push(`${name}: ${pct(change.before)} -> ${pct(change.after)}`)
+  }
+
+  return {
+    before: before.evalId,
+    after: after.evalId,
+    threshold,
+    overall: categories.overall ?? delta(before.score, after.score),
+    categories,
+    latency: delta(avg(before.timings.task), avg(after.timings.task)),
+    overallInterval:
+      beforeBreakdown.sampling?.categories.overall && afterBreakdown.sampling?.categories.overall
+        ? { before: beforeBreakdown.sampling.categories.overall, after: afterBreakdown.sampling.categories.overall }
+        : undefined,
+    runs,
+    regressions
+  }
+}
+
+const signedPct = (n: number) => `${n >= 0 ? '+' : ''}${pct(n)}`
+const signedMs = (n: number) => `${n >= 0 ? '+' : ''}${Math.round(n)}ms`
+
+export function formatComparison(comparison: Comparison): string {
+  const lines = [`Comparing ${comparison.before} -> ${comparison.after}`]
+  for (const [name, c] of Object.entries(comparison.categories))
+    lines.push(
+      `  ${name.padEnd(16)} ${pct(c.before).padStart(8)} -> ${pct(c.after).padStart(8)} (${signedPct(c.delta)})`
+    )
+  const interval = comparison.overallInterval
+  if (interval) {
+    const { before, after } = interval
+    const overlap = before.low <= after.high && after.low <= before.high
+    lines.push(
+      `  ${'95% CI'.padEnd(16)} [${pct(before.low)} - ${pct(before.high)}] -> [${pct(after.low)} - ${pct(after.high)}]${overlap ? ' (overlapping: the change may be noise)' : ''}`
+    )
+  }
+  lines.push(
+    `  ${'avg latency'.padEnd(16)} ${`${Math.round(comparison.latency.before)}ms`.padStart(8)} -> ${`${Math.round(comparison.latency.after)}ms`.padStart(8)} (${signedMs(comparison.latency.delta)})`
+  )
+
+  const changed = comparison.runs.filter(
+    (r) =>
+      r.missing || r.score?.delta || r.errorBefore !== r.errorAfter || r.newlyFailing.length || r.newlyPassing.length
+  )
+  if (changed.length) lines.push('Changed runs:')
+  for (const run of changed) {
+    if (run.missing) {
+      lines.push(`  ${run.label}: only in ${run.missing === 'before' ? comparison.after : comparison.before}`)
+      continue
+    }
+    const score = run.score ? `${pct(run.score.before)} -> ${pct(run.score.after)} (${signedPct(run.score.delta)})` : ''
+    const latency = run.latency ? ` ${signedMs(run.latency.delta)}` : ''
+    lines.push(`  ${run.label}: ${score}${latency}`)
+    if (run.errorBefore !== run.errorAfter)
+      lines.push(`    error: ${run.errorBefore ?? 'none'} -> ${run.errorAfter ?? 'none'}`)
+    for (const c of run.newlyFailing) lines.push(`    ❌ ${c.input} -> expected ${c.expected}, got ${c.after}`)
+    for (const c of run.newlyPassing) lines.push(`    ✅ ${c.input} -> ${c.expected}`)
+  }
+
+  if (comparison.regressions.length) {
+    lines.push(`Regressions beyond ${pct(comparison.threshold)}:`)
+    for (const r of comparison.regressions) lines.push(`  ${r}`)
+  } else {
+    lines.push(`No regressions beyond ${pct(comparison.threshold)}`)
+  }
+  return lines.join('\n')
+}
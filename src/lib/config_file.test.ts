@@ -0,0 +1,77 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { type AgentProtocol, configure, feedback, mavkaLimits } from '../conf'
+import { readConfigFile } from './config_file'
+
+let dir: string
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'runner-test-'))
+})
+
+afterAll(() => rm(dir, { recursive: true, force: true }))
+
+const writeConfig = async (config: unknown) => {
+  const path = join(dir, `${Bun.hash(JSON.stringify(config))}.json`)
+  await Bun.write(path, JSON.stringify(config))
+  return path
+}
+
+describe('readConfigFile', () => {
+  test('reads a partial config', async () => {
+    const path = await writeConfig({ agentUrl: 'http://localhost:4000/text', agentTimeoutMs: 1000 })
+    expect(await readConfigFile(path)).toEqual({ agentUrl: 'http://localhost:4000/text', agentTimeoutMs: 1000 })
+  })
+
+  test('fails on a missing explicit path', async () => {
+    await expect(readConfigFile(join(dir, 'missing.json'))).rejects.toThrow(/^Config file not found: /)
+  })
+
+  test('points at the invalid setting', async () => {
+    const path = await writeConfig({ agentTimeoutMs: -1 })
+    await expect(readConfigFile(path)).rejects.toThrow(/^Invalid config .*: .* at agentTimeoutMs$/)
+  })
+
+  test('reads Mavka limits', async () => {
+    const path = await writeConfig({ mavkaLimits: { timeoutMs: 1000, memoryMb: 256 } })
+    expect(await readConfigFile(path)).toEqual({ mavkaLimits: { timeoutMs: 1000, memoryMb: 256 } })
+    await expect(readConfigFile(await writeConfig({ mavkaLimits: { batchCaseMs: -1 } }))).rejects.toThrow(
+      /at mavkaLimits\.batchCaseMs$/
+    )
+  })
+
+  test('rejects unknown settings', async () => {
+    await expect(readConfigFile(await writeConfig({ agentUrll: 'http://localhost' }))).rejects.toThrow(/Invalid config/)
+  })
+})
+
+describe('configure', () => {
+  test('overrides only the given Mavka limits', () => {
+    const previous = { ...mavkaLimits }
+    try {
+      configure({ mavkaLimits: { timeoutMs: 1000 } })
+      expect(mavkaLimits).toEqual({ ...previous, timeoutMs: 1000 })
+    } finally {
+      configure({ mavkaLimits: previous })
+    }
+  })
+
+  test('rejects an unknown agent protocol', () => {
+    expect(() => configure({ agentProtocol: 'grpc' as AgentProtocol })).toThrow(
+      'Invalid AGENT_PROTOCOL "grpc", expected text, openai or sse'
+    )
+  })
+
+  test('rejects an unknown feedback provider', () => {
+    const previous = { ...feedback }
+    try {
+      expect(() => configure({ feedback: { provider: 'gemini' as typeof feedback.provider } })).toThrow(
+        'Invalid FEEDBACK_PROVIDER "gemini", expected azure, openai or template'
+      )
+    } finally {
+      configure({ feedback: previous })
+    }
+  })
+})
@@ -0,0 +1,63 @@
+import z from 'zod'
+import type { RunnerConfig } from '../conf'
+
+// Файл конфігурації runner-а (JSON); CLI-прапорці мають пріоритет над ним
+export const defaultConfigPath = 'runner.config.json'
+
+export const agentProtocolSchema = z.enum(['text', 'openai', 'sse'])
+export const feedbackProviderSchema = z.enum(['azure', 'openai', 'template'])
+
+const configFile = z
+  .object({
+    mavkaPath: z.string(),
+    agentUrl: z.url(),
+    agentProtocol: agentProtocolSchema,
+    agentModel: z.string(),
+    agentBearerToken: z.string(),
+    agentHeaders: z.record(z.string(), z.string()),
+    agentTimeoutMs: z.number().int().positive(),
+    concurrency: z.number().int().positive(),
+    repairRounds: z.number().int().nonnegative(),
+    disableFeedback: z.boolean(),
+    feedback: z
+      .object({
+        provider: feedbackProviderSchema,
+        model: z.string(),
+        baseUrl: z.url(),
+        apiKey: z.string()
+      })
+      .partial()
+      .strict(),
+    feedbackCache: z.enum(['record', 'replay', 'off']),
+    feedbackCacheFolder: z.string(),
+    feedbackDiagnostics: z.boolean(),
+    mavkaLimits: z
+      .object({
+        timeoutMs: z.number().int().positive(),
+        batchCaseMs: z.number().int().nonnegative(),
+        maxOutputBytes: z.number().int().positive(),
+        memoryMb: z.number().int().positive()
+      })
+      .partial()
+      .strict(),
+    tmpFolder: z.string(),
+    resultsFolder: z.string(),
+    phoenixUrl: z.url()
+  })
+  .partial()
+  .strict()
+
+// Читає `path` (обовʼязково існує) або `runner.config.json` (якщо є)
+export async function readConfigFile(path?: string): Promise<RunnerConfig> {
+  const file = Bun.file(path ?? defaultConfigPath)
+  if (!(await file.exists())) {
+    if (path) throw new Error(`Config file not found: ${path}`)
+    return {}
+  }
+  const parsed = configFile.safeParse(await file.json())
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    throw new Error(`Invalid config ${file.name}: ${issue?.message} at ${issue?.path.join('.') || '<root>'}`)
+  }
+  return parsed.data
+}
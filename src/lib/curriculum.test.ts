@@ -0,0 +1,51 @@
+import { describe, expect, test } from 'bun:test'
+import { dirname } from 'node:path'
+import learnings from '../../learnings.json'
+import { buildCurriculum, curriculumText, isCurriculumProfile } from './curriculum'
+import { curriculumUid } from './sampling'
+
+const section = (file: string) => file.split('/')[1]
+
+describe('buildCurriculum', () => {
+  test('full keeps learnings.json as is', () => {
+    expect(buildCurriculum()).toEqual(learnings.map(({ file, uid }) => ({ file, uid, files: [file] })))
+  })
+
+  test('filters sections and gives each profile its own sessions', () => {
+    const docs = buildCurriculum('docs')
+    expect(docs.length).toBeGreaterThan(0)
+    expect(docs.every((item) => section(item.file) === '1_docs')).toBe(true)
+    const [first] = learnings
+    expect(docs[0]?.uid).toBe(curriculumUid(first?.uid as string, 'docs'))
+    expect(buildCurriculum('docs+nuances').some((item) => section(item.file) === '2_algorithms')).toBe(false)
+    expect(buildCurriculum('no-nuances').some((item) => section(item.file) === '3_nuances')).toBe(false)
+  })
+
+  test('shuffled reorders every file the same way each time', () => {
+    const shuffled = buildCurriculum('shuffled').map((item) => item.file)
+    const files = learnings.map((learning) => learning.file)
+    expect(shuffled).not.toEqual(files)
+    expect(shuffled.toSorted()).toEqual(files.toSorted())
+    expect(buildCurriculum('shuffled').map((item) => item.file)).toEqual(shuffled)
+  })
+
+  test('merged sends consecutive files of a folder as one message', () => {
+    const merged = buildCurriculum('merged')
+    expect(merged.length).toBeLessThan(learnings.length)
+    expect(merged.flatMap((item) => item.files)).toEqual(learnings.map((learning) => learning.file))
+    for (const item of merged) expect(item.files.every((file) => dirname(file) === item.file)).toBe(true)
+    const first = learnings.find((learning) => learning.file === merged[0]?.files[0])
+    expect(merged[0]?.uid).toBe(curriculumUid(first?.uid as string, 'merged'))
+  })
+})
+
+test('curriculumText joins the files of a message with a blank line', async () => {
+  const [a, b] = learnings.map((learning) => learning.file) as [string, string]
+  const text = await curriculumText({ file: dirname(a), uid: '', files: [a, b] })
+  expect(text).toBe(`${await Bun.file(a).text()}\n\n${await Bun.file(b).text()}`)
+})
+
+test('isCurriculumProfile accepts only known profiles', () => {
+  expect(isCurriculumProfile('merged')).toBe(true)
+  expect(isCurriculumProfile('ordered')).toBe(false)
+})
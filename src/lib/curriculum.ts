@@ -0,0 +1,78 @@
+import { dirname } from 'node:path'
+import learnings from '../../learnings.json'
+import { curriculumUid } from './sampling'
+import { seededRandom } from './stats'
+
+// Профілі навчання (`--curriculum`) для абляцій: які файли `learnings.json` і в якому вигляді отримує агент.
+// Кожен профіль, окрім `full`, має власні сесії агента (похідні uid навчання та запусків), тож профілі не
+// перетинаються між собою та зі звичайним eval
+
+export const curriculumProfiles = {
+  full: 'усі файли learnings.json у звичайному порядку',
+  docs: 'лише документація (1_docs)',
+  'docs+nuances': 'документація та особливості (1_docs, 3_nuances), без алгоритмів',
+  'no-nuances': 'документація та алгоритми (1_docs, 2_algorithms), без особливостей',
+  shuffled: 'усі файли у випадковому (детермінованому) порядку',
+  merged: 'усі файли, обʼєднані по одному повідомленню на папку'
+} as const
+
+export type CurriculumProfile = keyof typeof curriculumProfiles
+
+export const isCurriculumProfile = (profile: string): profile is CurriculumProfile => profile in curriculumProfiles
+
+// Одне повідомлення навчання; `file` -- файл чи (для `merged`) папка, `files` -- що саме надсилається
+export interface CurriculumItem {
+  file: string
+  uid: string
+  files: string[]
+}
+
+const section = (file: string) => file.split('/')[1]
+
+function shuffle<T>(items: T[]): T[] {
+  const next = seededRandom(42)
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(next() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j] as T, shuffled[i] as T]
+  }
+  return shuffled
+}
+
+// Послідовні файли однієї папки -- одне повідомлення з uid першого файлу
+function merge(items: CurriculumItem[]): CurriculumItem[] {
+  const merged: CurriculumItem[] = []
+  for (const item of items) {
+    const last = merged[merged.length - 1]
+    if (last && last.file === dirname(item.file)) last.files.push(item.file)
+    else merged.push({ file: dirname(item.file), uid: item.uid, files: [item.file] })
+  }
+  return merged
+}
+
+export function buildCurriculum(profile: CurriculumProfile = 'full'): CurriculumItem[] {
+  const items = learnings.map((learning) => ({ file: learning.file, uid: learning.uid, files: [learning.file] }))
+  const selected = (() => {
+    switch (profile) {
+      case 'full':
+        return items
+      case 'docs':
+        return items.filter((item) => section(item.file) === '1_docs')
+      case 'docs+nuances':
+        return items.filter((item) => section(item.file) !== '2_algorithms')
+      case 'no-nuances':
+        return items.filter((item) => section(item.file) !== '3_nuances')
+      case 'shuffled':
+        return shuffle(items)
+      case 'merged':
+        return merge(items)
+    }
+  })()
+  return profile === 'full' ? selected : selected.map((item) => ({ ...item, uid: curriculumUid(item.uid, profile) }))
+}
+
+// Текст повідомлення навчання (файли `merged` -- через порожній рядок)
+export async function curriculumText(item: CurriculumItem): Promise<string> {
+  const texts = await Promise.all(item.files.map((file) => Bun.file(file).text()))
+  return texts.join('\n\n')
+}
@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'bun:test'
+import runs from '../../2_runs.json'
+import learnings from '../../learnings.json'
+import { validateDataset } from './dataset'
+
+const staticOnly = { execute: false }
+
+// Перший запуск 2_runs.json та його `isAfterFeedback` двійник
+const family = () => {
+  const first = structuredClone(runs[0]) as (typeof runs)[0]
+  const second = runs.find((r) => r.uuid === first.uuidFeedback)
+  return [first, structuredClone(second)]
+}
+
+describe('validateDataset', () => {
+  test('accepts 2_runs.json and learnings.json', async () => {
+    expect(await validateDataset(runs, learnings, staticOnly)).toEqual([])
+  })
+
+  test('rejects anything but arrays', async () => {
+    expect(await validateDataset({}, learnings, staticOnly)).toEqual([
+      { severity: 'error', subject: 'runs', message: 'Expected an array of runs' }
+    ])
+  })
+
+  test('accepts test cases in the JSON format', async () => {
+    const [first, second] = family()
+    const jsonCases = [{ args: [[25, 30, 35]], expected: '100' }]
+    const issues = await validateDataset(
+      [{ ...first, private: { ...first?.private, testCases: jsonCases } }, second],
+      learnings,
+      staticOnly
+    )
+    expect(issues).toEqual([])
+  })
+
+  test('reports malformed test cases', async () => {
+    const [first, second] = family()
+    for (const testCases of ['1, 2 ->', [{ args: 'x', expected: '1' }]]) {
+      const issues = await validateDataset(
+        [{ ...first, private: { ...first?.private, testCases } }, second],
+        learnings,
+        staticOnly
+      )
+      expect(issues.map((i) => i.message)).toEqual([expect.stringMatching(/^Invalid testCases/)])
+    }
+  })
+
+  test('reports broken feedback links and reused uids', async () => {
+    const [first] = family()
+    const issues = await validateDataset([first, { ...first }], learnings, staticOnly)
+    const messages = issues.map((i) => i.message)
+    expect(messages.some((m) => m.includes('is already used by'))).toBe(true)
+    expect(messages).toContain('uuidFeedback does not match any isAfterFeedback run')
+  })
+
+  test('reports a conflicted flag that does not match the algorithm number', async () => {
+    const [first, second] = family()
+    const issues = await validateDataset([{ ...first, isConflicted: true }, second], learnings, staticOnly)
+    expect(issues.map((i) => i.message)).toContain(
+      'isConflicted is true, but conflicting algorithms are exactly those numbered > 100'
+    )
+  })
+  test('reports expected references outside 1_learning', async () => {
+    const [first, second] = family()
+    const issues = await validateDataset(
+      [{ ...first, private: { ...first?.private, expectedReferences: ['README.md'] } }, second],
+      learnings,
+      staticOnly
+    )
+    expect(issues.map((i) => i.message)).toEqual(['Expected reference README.md is not a 1_learning file'])
+  })
+})
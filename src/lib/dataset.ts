@@ -0,0 +1,194 @@
+import z from 'zod'
+import { comparatorSchema } from './comparators'
+import { buildReferenceIndex } from './references'
+import { runLabel, runRecordBase } from './results'
+import { testMavkaCode } from './run_mavka'
+import { parseTestCases } from './test_cases'
+import type { TestResult } from './types'
+
+// Перевірка `2_runs.json` та `learnings.json` до запуску eval: схема, унікальність uid, звʼязки між запусками,
+// файли конфліктних алгоритмів, очікувані посилання та те, що `idealMavkaCode` проходить власні тест-кейси
+
+export const defaultRunsPath = '2_runs.json'
+export const defaultLearningsPath = 'learnings.json'
+
+// Текстовий формат чи JSON-масив кейсів (див. `parseTestCases`); сам формат перевіряє `validateDataset`
+export const testCasesSchema = z.union([z.string().min(1), z.array(z.unknown()).min(1)])
+
+export const runSchema = z
+  .object({
+    uuid: z.uuid(),
+    uuidFeedback: z.uuid().optional(),
+    uuidConflictingDocs: z.uuid().optional(),
+    algorithm: z.object({ number: z.number().int().positive(), name: z.string().min(1) }).strict(),
+    type: z.enum(['implement', 'review']),
+    isConflicted: z.boolean(),
+    isAfterFeedback: z.boolean(),
+    mavkaCodeToReview: z.string().min(1).optional(),
+    private: z
+      .object({
+        testCases: testCasesSchema,
+        algorithmPlain: z.string().min(1),
+        idealMavkaCode: z.string().min(1),
+        comparator: comparatorSchema.optional(),
+        // Файли `1_learning`, на які має послатися агент (див. `src/lib/references.ts`)
+        expectedReferences: z.array(z.string().min(1)).optional()
+      })
+      .strict()
+  })
+  .strict()
+export type DatasetRun = z.infer<typeof runSchema>
+
+const learningSchema = z.object({ file: z.string().min(1), uid: z.uuid() }).strict()
+
+export interface DatasetIssue {
+  severity: 'error' | 'warning'
+  // Запуск (`runLabel`) чи файл навчання, якого стосується проблема
+  subject: string
+  message: string
+}
+
+export interface ValidateOptions {
+  // Запускати `idealMavkaCode` через Мавку (вимкнено -- лише статичні перевірки)
+  execute: boolean
+  // Викликається перед перевіркою кожного еталонного коду (для прогресу)
+  onExecute?: (subject: string, index: number, total: number) => void
+}
+
+export const formatTestFailure = (t: TestResult, n: number) =>
+  `test ${n + 1} (${t.outcome}): ${t.input} -> expected ${t.expected}, got ${t.actual}`
+
+const zodIssues = (subject: string, error: z.ZodError): DatasetIssue[] =>
+  error.issues.map((issue) => ({
+    severity: 'error',
+    subject,
+    message: `${issue.message} at ${issue.path.join('.') || '<root>'}`
+  }))
+
+export async function validateDataset(
+  rawRuns: unknown,
+  rawLearnings: unknown,
+  options: ValidateOptions
+): Promise<DatasetIssue[]> {
+  const issues: DatasetIssue[] = []
+  const error = (subject: string, message: string) => issues.push({ severity: 'error', subject, message })
+  const warning = (subject: string, message: string) => issues.push({ severity: 'warning', subject, message })
+
+  // --- Схема ---
+
+  if (!Array.isArray(rawRuns)) return [{ severity: 'error', subject: 'runs', message: 'Expected an array of runs' }]
+  if (!Array.isArray(rawLearnings))
+    return [{ severity: 'error', subject: 'learnings', message: 'Expected an array of learnings' }]
+
+  const runs: { run: DatasetRun; index: number; label: string }[] = []
+  for (const [index, raw] of rawRuns.entries()) {
+    const parsed = runSchema.safeParse(raw)
+    if (parsed.success) runs.push({ run: parsed.data, index, label: runLabel(runRecordBase(parsed.data, index)) })
+    else issues.push(...zodIssues(`run ${index + 1}`, parsed.error))
+  }
+  const learnings: z.infer<typeof learningSchema>[] = []
+  for (const [index, raw] of rawLearnings.entries()) {
+    const parsed = learningSchema.safeParse(raw)
+    if (parsed.success) learnings.push(parsed.data)
+    else issues.push(...zodIssues(`learning ${index + 1}`, parsed.error))
+  }
+
+  // --- Унікальність uid (сесії агента не можуть бути спільними, окрім задуманих звʼязків) ---
+
+  const owners = new Map<string, string>()
+  const claim = (uid: string, subject: string) => {
+    const owner = owners.get(uid)
+    if (owner) error(subject, `uid ${uid} is already used by ${owner}`)
+    else owners.set(uid, subject)
+  }
+  for (const learning of learnings) claim(learning.uid, learning.file)
+  for (const { run, label } of runs) claim(run.uuid, label)
+  // uuidFeedback -- це uuid `isAfterFeedback` двійника (якщо він є), але не може бути спільним для двох запусків
+  const feedbackOwners = new Map<string, string>()
+  for (const { run, label } of runs) {
+    if (!run.uuidFeedback) continue
+    const owner = feedbackOwners.get(run.uuidFeedback)
+    if (owner) error(label, `uuidFeedback ${run.uuidFeedback} is already used by ${owner}`)
+    feedbackOwners.set(run.uuidFeedback, label)
+    if (!runs.some((r) => r.run.uuid === run.uuidFeedback)) claim(run.uuidFeedback, `${label} (uuidFeedback)`)
+  }
+
+  for (const learning of learnings)
+    if (!(await Bun.file(learning.file).exists())) error(learning.file, 'Learning file does not exist')
+
+  // --- Окремі запуски та звʼязки між ними ---
+
+  const learningFiles = new Set(buildReferenceIndex().files)
+  for (const { run, index, label } of runs) {
+    if (run.type === 'review' && !run.mavkaCodeToReview) error(label, 'Review run has no mavkaCodeToReview')
+    if (run.type === 'implement' && run.mavkaCodeToReview) warning(label, 'Implement run has unused mavkaCodeToReview')
+
+    try {
+      parseTestCases(run.private.testCases, run.private.comparator)
+    } catch (e) {
+      error(label, `Invalid testCases: ${(e as Error).message}`)
+    }
+
+    for (const file of run.private.expectedReferences ?? [])
+      if (!learningFiles.has(file.normalize('NFC'))) error(label, `Expected reference ${file} is not a 1_learning file`)
+
+    if (run.isConflicted !== run.algorithm.number > 100)
+      error(label, `isConflicted is ${run.isConflicted}, but conflicting algorithms are exactly those numbered > 100`)
+
+    if (run.isAfterFeedback) {
+      if (run.uuidFeedback) error(label, 'isAfterFeedback run must not have its own uuidFeedback')
+      const first = runs.find((r) => r.run.uuidFeedback === run.uuid)
+      if (!first) error(label, 'isAfterFeedback run has no first run (no run has uuidFeedback equal to its uuid)')
+      else if (first.index > index) error(label, `First run ${first.label} comes after its isAfterFeedback run`)
+      else if (first.run.algorithm.number !== run.algorithm.number)
+        error(label, `First run ${first.label} is for a different algorithm`)
+      continue
+    }
+
+    if (!run.uuidFeedback) warning(label, 'First run has no uuidFeedback, so it never gets feedback')
+    else if (!runs.some((r) => r.run.uuid === run.uuidFeedback && r.run.isAfterFeedback))
+      warning(label, 'uuidFeedback does not match any isAfterFeedback run')
+
+    if (!run.isConflicted) continue
+
+    const padded = String(run.algorithm.number).padStart(3, '0')
+    const files = await Array.fromAsync(new Bun.Glob(`1_learning/2_algorithms/${padded}_*`).scan('.'))
+    if (files.length !== 1)
+      error(label, `Expected exactly one 1_learning/2_algorithms/${padded}_* file, found ${files.length}`)
+
+    if (!run.uuidConflictingDocs) error(label, 'Conflicted run has no uuidConflictingDocs')
+    else {
+      const base = runs.find((r) => r.run.uuid === run.uuidConflictingDocs)
+      if (!base) error(label, 'uuidConflictingDocs does not match any run')
+      else if (base.run.algorithm.number !== run.algorithm.number - 100)
+        error(label, `uuidConflictingDocs points to ${base.label}, expected algorithm ${run.algorithm.number - 100}`)
+      else if (base.index > index) warning(label, `Conflicting docs are learned in ${base.label}, which comes later`)
+    }
+  }
+
+  // --- Еталонний код проходить власні тест-кейси (однакові пари код/тести перевіряються раз) ---
+
+  if (options.execute) {
+    const checked = new Set<string>()
+    const pending = runs.filter(({ run }) => {
+      const key = JSON.stringify([run.private.idealMavkaCode, run.private.testCases, run.private.comparator])
+      if (checked.has(key)) return false
+      checked.add(key)
+      return true
+    })
+    for (const [i, { run, label }] of pending.entries()) {
+      options.onExecute?.(label, i, pending.length)
+      let results: Awaited<ReturnType<typeof testMavkaCode>>
+      try {
+        results = await testMavkaCode(run.private.idealMavkaCode, run.private.testCases, run.private.comparator)
+      } catch (e) {
+        error(label, `idealMavkaCode could not be tested: ${(e as Error).message}`)
+        continue
+      }
+      for (const [n, t] of results.entries())
+        if (!t.passed) error(label, `idealMavkaCode fails ${formatTestFailure(t, n)}`)
+    }
+  }
+
+  return issues
+}
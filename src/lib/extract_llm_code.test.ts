@@ -0,0 +1,66 @@
+import { describe, expect, test } from 'bun:test'
+import { extractCodeFromLLM } from './extract_llm_code'
+
+const algorithm = 'дія алгоритм(а)\n  вернути а\nкінець'
+
+describe('extractCodeFromLLM', () => {
+  test('takes a fenced block', () => {
+    const extraction = extractCodeFromLLM(`Ось код:\n\`\`\`mavka\n${algorithm}\n\`\`\`\nГотово.`)
+    expect(extraction).toEqual({
+      code: algorithm,
+      strategy: 'fence',
+      language: 'mavka',
+      candidates: 1,
+      ambiguous: false,
+      reasoningStripped: false
+    })
+  })
+
+  test('closes a fence followed by text on the same line', () => {
+    const extraction = extractCodeFromLLM(`\`\`\`mavka\n${algorithm}\n\`\`\` без зайвих пояснень`)
+    expect(extraction.code).toBe(algorithm)
+    expect(extraction.strategy).toBe('fence')
+  })
+
+  test('opens a fence after text on the same line', () => {
+    const extraction = extractCodeFromLLM(`Here: \`\`\`mavka\n${algorithm}\n\`\`\``)
+    expect(extraction.code).toBe(algorithm)
+    expect(extraction.strategy).toBe('fence')
+    expect(extraction.language).toBe('mavka')
+  })
+
+  test('keeps an unterminated fence up to the end of the text', () => {
+    const extraction = extractCodeFromLLM(`\`\`\`мавка\n${algorithm}`)
+    expect(extraction.code).toBe(algorithm)
+    expect(extraction.strategy).toBe('unterminated-fence')
+  })
+
+  test('prefers the block that defines алгоритм, then the one labelled as Mavka', () => {
+    const response = `\`\`\`mavka\nдрук(1)\n\`\`\`\n\`\`\`js\n${algorithm}\n\`\`\`\n\`\`\`mavka\n${algorithm}\n\`\`\``
+    const extraction = extractCodeFromLLM(response)
+    expect(extraction.language).toBe('mavka')
+    expect(extraction.code).toBe(algorithm)
+    expect(extraction.candidates).toBe(3)
+  })
+
+  test('marks different equally ranked blocks as ambiguous', () => {
+    const other = 'дія алгоритм(а)\n  вернути а + 1\nкінець'
+    const extraction = extractCodeFromLLM(`\`\`\`\n${algorithm}\n\`\`\`\n\`\`\`\n${other}\n\`\`\``)
+    expect(extraction.code).toBe(algorithm)
+    expect(extraction.ambiguous).toBe(true)
+  })
+
+  test('strips reasoning before extracting', () => {
+    const extraction = extractCodeFromLLM(
+      `<think>\`\`\`mavka\nчернетка\n\`\`\`</think>\n\`\`\`mavka\n${algorithm}\n\`\`\``
+    )
+    expect(extraction.code).toBe(algorithm)
+    expect(extraction.reasoningStripped).toBe(true)
+  })
+
+  test('falls back to tags, inline code and raw text', () => {
+    expect(extractCodeFromLLM(`<mavka>${algorithm}</mavka>`).strategy).toBe('tag')
+    expect(extractCodeFromLLM('Відповідь: `вернути 1`').code).toBe('вернути 1')
+    expect(extractCodeFromLLM(algorithm)).toMatchObject({ code: algorithm, strategy: 'raw' })
+  })
+})
@@ -1,21 +1,114 @@
-export function extractCodeFromLLM(llmOutput: string): string {
-  // Try triple backticks with optional language identifier
-  const tripleBacktickMatch = llmOutput.match(/```(?:\w+)?\s*\n([\s\S]*?)\n```/)
-  if (tripleBacktickMatch?.[1]) {
-    return tripleBacktickMatch[1].trim()
+// Витягує код Мавки з відповіді агента. Стратегії за пріоритетом: блоки ``` (зокрема незакритий), XML-подібні
+// теги (<mavka>...</mavka>), вбудовані `...`, і зрештою весь текст. Серед кандидатів стратегії перевага блокам,
+// що визначають `алгоритм`, а потім позначеним як mavka/мавка. Теги міркувань (<think> тощо) видаляються заздалегідь.
+
+export type ExtractionStrategy = 'fence' | 'unterminated-fence' | 'tag' | 'inline' | 'raw'
+
+export interface CodeExtraction {
+  code: string
+  strategy: ExtractionStrategy
+  // Мова блоку ``` чи назва тегу, якщо є
+  language?: string
+  // Скільки кандидатів знайдено обраною стратегією
+  candidates: number
+  // Кілька різних кандидатів однаково підходять -- обрано перший
+  ambiguous: boolean
+  reasoningStripped: boolean
+}
+
+// Результат без самого коду -- для файлу результатів та спанів
+export type ExtractionInfo = Omit<CodeExtraction, 'code'>
+
+interface Candidate {
+  code: string
+  language?: string
+  unterminated?: boolean
+}
+
+const reasoningTags = ['think', 'thinking', 'reasoning', 'reflection']
+const mavkaLanguages = ['mavka', 'мавка', 'mavka-lang']
+
+const definesAlgorithm = (code: string) => /(^|\s)дія\s+алгоритм\s*\(|(^|\s)алгоритм\s*=\s*дія\s*\(/m.test(code)
+
+// Видаляє <think>...</think> та подібні; незакритий тег міркувань відкидає все до кінця тексту,
+// якщо після нього немає коду, інакше -- лише сам тег
+function stripReasoning(output: string): { text: string; stripped: boolean } {
+  let text = output
+  for (const tag of reasoningTags) {
+    text = text.replace(new RegExp(`<${tag}>[\\s\\S]*?</${tag}>`, 'gi'), '')
+    const open = text.search(new RegExp(`<${tag}>`, 'i'))
+    if (open !== -1) {
+      const rest = text.slice(open)
+      text = text.slice(0, open) + (rest.includes('```') ? rest.replace(new RegExp(`<${tag}>`, 'i'), '') : '')
+    }
+    // Закривальний тег без відкривального (частина міркувань обрізана клієнтом)
+    const close = text.search(new RegExp(`</${tag}>`, 'i'))
+    if (close !== -1) text = text.slice(close + tag.length + 3)
   }
+  return { text, stripped: text !== output }
+}
 
-  // Try XML-style tags (e.g., <mavka></mavka>)
-  const xmlTagMatch = llmOutput.match(/<(\w+)>([\s\S]*?)<\/\1>/)
-  if (xmlTagMatch?.[2]) {
-    return xmlTagMatch[2].trim()
+// Блоки ```мова ... ```; блок без закривального ``` триває до кінця тексту. Відкривальний ``` може стояти
+// й після тексту ("Ось код: ```mavka"), якщо далі в рядку немає ще одного ``` (це вбудований код). Закриває
+// блок будь-який рядок, що починається з ``` (текст після нього, як-от "``` без зайвих пояснень", до коду не потрапляє)
+function fencedBlocks(text: string): Candidate[] {
+  const blocks: Candidate[] = []
+  let current: (Candidate & { lines: string[] }) | undefined
+  for (const line of text.split('\n')) {
+    const fence = line.match(/```\s*([^\s`]*)(.*)$/)
+    if (!current && fence && !fence[2]?.includes('```'))
+      current = { code: '', language: fence[1] || undefined, lines: [] }
+    else if (current && line.trimStart().startsWith('```')) {
+      blocks.push({ code: current.lines.join('\n').trim(), language: current.language })
+      current = undefined
+    } else current?.lines.push(line)
   }
+  if (current) blocks.push({ code: current.lines.join('\n').trim(), language: current.language, unterminated: true })
+  return blocks.filter((b) => b.code)
+}
+
+function taggedBlocks(text: string): Candidate[] {
+  return [...text.matchAll(/<([\p{L}_-]+)>([\s\S]*?)<\/\1>/gu)]
+    .map((m) => ({ code: (m[2] ?? '').trim(), language: m[1] }))
+    .filter((b) => b.code)
+}
+
+function inlineSpans(text: string): Candidate[] {
+  return [...text.matchAll(/`([^`]+)`/g)].map((m) => ({ code: (m[1] ?? '').trim() })).filter((b) => b.code)
+}
+
+// Найкращий кандидат: визначає `алгоритм` (2) та позначений як Мавка (1); при рівності -- перший
+function pick(candidates: Candidate[]): { best: Candidate; ambiguous: boolean } | undefined {
+  const rank = (c: Candidate) =>
+    (definesAlgorithm(c.code) ? 2 : 0) + (mavkaLanguages.includes(c.language?.toLowerCase() ?? '') ? 1 : 0)
+  const top = Math.max(...candidates.map(rank))
+  const tied = candidates.filter((c) => rank(c) === top)
+  const [best] = tied
+  if (!best) return undefined
+  return { best, ambiguous: new Set(tied.map((c) => c.code)).size > 1 }
+}
+
+export function extractCodeFromLLM(llmOutput: string): CodeExtraction {
+  const { text, stripped } = stripReasoning(llmOutput)
 
-  // Try single backticks (inline code)
-  const singleBacktickMatch = llmOutput.match(/`([^`]+)`/)
-  if (singleBacktickMatch?.[1]) {
-    return singleBacktickMatch[1].trim()
+  const strategies: [ExtractionStrategy, Candidate[]][] = [
+    ['fence', fencedBlocks(text)],
+    ['tag', taggedBlocks(text)],
+    // Вбудований `...` -- лише якщо весь текст не є кодом з `алгоритм` (інакше це згадки в поясненні)
+    ['inline', definesAlgorithm(text) ? inlineSpans(text).filter((c) => definesAlgorithm(c.code)) : inlineSpans(text)]
+  ]
+  for (const [strategy, candidates] of strategies) {
+    const picked = pick(candidates)
+    if (!picked) continue
+    return {
+      code: picked.best.code,
+      strategy: picked.best.unterminated ? 'unterminated-fence' : strategy,
+      language: picked.best.language,
+      candidates: candidates.length,
+      ambiguous: picked.ambiguous,
+      reasoningStripped: stripped
+    }
   }
 
-  return llmOutput
+  return { code: text.trim(), strategy: 'raw', candidates: 1, ambiguous: false, reasoningStripped: stripped }
 }
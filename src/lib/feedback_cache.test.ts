@@ -0,0 +1,118 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { chmodSync } from 'node:fs'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { configure, type FeedbackCacheMode, feedbackCache, feedbackCacheFolder, mavkaPath, tmpFolder } from '../conf'
+import { analyzeMavkaCode } from './analyze_mavka'
+import { FeedbackCacheMissError, feedbackCacheKey } from './feedback_cache'
+import { type FeedbackProvider, type FeedbackRequest, generateFeedback } from './gen_feedback'
+import { testMavkaCode } from './run_mavka'
+import type { TestResult } from './types'
+
+const result = (actual: string, ms?: number): TestResult => ({
+  passed: false,
+  outcome: 'crash',
+  input: '1, 2',
+  expected: '3',
+  actual,
+  comparator: 'exact',
+  ms
+})
+
+const request = (overrides: Partial<FeedbackRequest> = {}): FeedbackRequest => ({
+  algorithmText: '## Алгоритм',
+  userImplementation: 'дія алгоритм(а, б)\n  вернути а - б\nкінець',
+  expectedImplementation: 'дія алгоритм(а, б)\n  вернути а + б\nкінець',
+  testResults: [result('ERROR: Помилка в тест_1.м:2', 10)],
+  ...overrides
+})
+
+describe('feedbackCacheKey', () => {
+  test('is stable and ignores test timings', () => {
+    const key = feedbackCacheKey(request(), 1, 'template')
+    expect(feedbackCacheKey(request({ testResults: [result('ERROR: Помилка в тест_1.м:2', 99)] }), 1, 'template')).toBe(
+      key
+    )
+  })
+
+  test('depends on the provider, prompt version, expected implementation and code', () => {
+    const key = feedbackCacheKey(request(), 1, 'template')
+    expect(feedbackCacheKey(request(), 1, 'openai:qwen2.5-coder')).not.toBe(key)
+    expect(feedbackCacheKey(request(), 2, 'template')).not.toBe(key)
+    expect(feedbackCacheKey(request({ expectedImplementation: 'інакше' }), 1, 'template')).not.toBe(key)
+    expect(feedbackCacheKey(request({ userImplementation: 'інакше' }), 1, 'template')).not.toBe(key)
+  })
+
+  test('depends on diagnostics when they are sent', () => {
+    const diagnostics = analyzeMavkaCode(request().userImplementation)
+    expect(feedbackCacheKey(request({ diagnostics }), 1, 'template')).not.toBe(
+      feedbackCacheKey(request(), 1, 'template')
+    )
+  })
+})
+
+describe('generateFeedback', () => {
+  const previous = { feedbackCache, feedbackCacheFolder }
+  let dir: string
+  let generated = 0
+  const provider: FeedbackProvider = { name: 'fake', generate: async () => `Фідбек ${++generated}` }
+  const generate = (mode: FeedbackCacheMode, overrides?: Partial<FeedbackRequest>) => {
+    configure({ feedbackCache: mode })
+    return generateFeedback(provider, request(overrides))
+  }
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'runner-test-'))
+    configure({ feedbackCacheFolder: dir })
+  })
+
+  afterAll(async () => {
+    configure(previous)
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  test('off always generates', async () => {
+    expect(await generate('off')).toEqual({ text: 'Фідбек 1', provider: 'fake', cache: 'off' })
+    expect(await generate('off')).toEqual({ text: 'Фідбек 2', provider: 'fake', cache: 'off' })
+  })
+
+  test('record generates a missing entry once and then reuses it', async () => {
+    expect(await generate('record')).toEqual({ text: 'Фідбек 3', provider: 'fake', cache: 'miss' })
+    expect(await generate('record')).toEqual({ text: 'Фідбек 3', provider: 'fake', cache: 'hit' })
+  })
+
+  test('replay only reads the cache', async () => {
+    expect(await generate('replay')).toEqual({ text: 'Фідбек 3', provider: 'fake', cache: 'hit' })
+    await expect(generate('replay', { userImplementation: 'інакше' })).rejects.toBeInstanceOf(FeedbackCacheMissError)
+    expect(generated).toBe(3)
+  })
+})
+
+// Мавка пише шлях скрипта в повідомлення про помилку, а кожен запуск має власну тимчасову папку
+describe('crash output', () => {
+  const previous = { mavkaPath, tmpFolder }
+  let dir: string
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'runner-test-'))
+    const mavka = join(dir, 'mavka')
+    await Bun.write(mavka, '#!/bin/sh\necho "Помилка в $PWD/$1:1" >&2\nexit 1\n')
+    chmodSync(mavka, 0o755)
+    configure({ mavkaPath: mavka, tmpFolder: dir })
+  })
+
+  afterAll(async () => {
+    configure(previous)
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  test('does not depend on the temporary work dir', async () => {
+    const code = 'дія алгоритм(а)\nкінець'
+    const first = await testMavkaCode(code, '1 -> 1')
+    const second = await testMavkaCode(code, '1 -> 1')
+    expect(first[0]?.actual.trim()).toBe('ERROR: Помилка в тест_1.м:1')
+    const key = (testResults: TestResult[]) => feedbackCacheKey(request({ testResults }), 1, 'template')
+    expect(key(second)).toBe(key(first))
+  })
+})
@@ -0,0 +1,49 @@
+import { mkdirSync } from 'node:fs'
+import { feedbackCacheFolder } from '../conf'
+import type { FeedbackRequest } from './gen_feedback'
+
+// Кеш фідбеку на диску: `<feedbackCacheFolder>/<ключ>.json`, де ключ -- sha256 від версії промпту, провайдера,
+// алгоритму, еталонного коду, коду агента та результатів тестів. Дозволяє двом eval отримати однаковий фідбек на однаковий код.
+
+export interface CachedFeedback {
+  key: string
+  promptVersion: number
+  provider: string
+  createdAt: string
+  feedback: string
+}
+
+export class FeedbackCacheMissError extends Error {
+  constructor(key: string) {
+    super(`Feedback not found in cache (replay mode): ${key}`)
+    this.name = 'FeedbackCacheMissError'
+  }
+}
+
+// `provider` -- назва провайдера з моделлю (`FeedbackProvider.name`), щоби інший провайдер не отримав чужий фідбек
+export function feedbackCacheKey(request: FeedbackRequest, promptVersion: number, provider: string): string {
+  const content = {
+    promptVersion,
+    provider,
+    algorithm: request.algorithmText,
+    expectedCode: request.expectedImplementation,
+    code: request.userImplementation,
+    // Лише те, що впливає на фідбек (без часу виконання)
+    testResults: request.testResults.map((t) => [t.input, t.expected, t.actual, t.outcome]),
+    // Лише з `feedbackDiagnostics`, тож ключі без діагностик не змінились
+    ...(request.diagnostics && { diagnostics: request.diagnostics.map((d) => [d.code, d.line, d.column]) })
+  }
+  return new Bun.CryptoHasher('sha256').update(JSON.stringify(content)).digest('hex')
+}
+
+const entryPath = (key: string) => `${feedbackCacheFolder}/${key}.json`
+
+export async function readCachedFeedback(key: string): Promise<CachedFeedback | undefined> {
+  const file = Bun.file(entryPath(key))
+  return (await file.exists()) ? ((await file.json()) as CachedFeedback) : undefined
+}
+
+export async function writeCachedFeedback(entry: CachedFeedback): Promise<void> {
+  mkdirSync(feedbackCacheFolder, { recursive: true })
+  await Bun.write(entryPath(entry.key), JSON.stringify(entry, null, 2))
+}
@@ -0,0 +1,58 @@
+import { describe, expect, test } from 'bun:test'
+import { templateFeedback } from './feedback_template'
+import type { FeedbackRequest } from './gen_feedback'
+import type { TestResult } from './types'
+
+const docs = '# Mavka\n\n## Loops\nЦикл `перебрати`.\n\n---\n\n## Variables & Naming\nЛише кирилиця.\n'
+
+const result = (passed: boolean, overrides: Partial<TestResult> = {}): TestResult => ({
+  passed,
+  outcome: passed ? 'passed' : 'failed',
+  input: '1, 2',
+  expected: '3',
+  actual: passed ? '3' : '4',
+  comparator: 'exact',
+  ...overrides
+})
+
+const request = (testResults: TestResult[], userImplementation = 'дія алгоритм(а, б)\n  вернути а\nкінець') =>
+  ({
+    algorithmText: '## Алгоритм',
+    userImplementation,
+    expectedImplementation: 'дія алгоритм(а, б)\n  вернути а + б\nкінець',
+    testResults
+  }) satisfies FeedbackRequest
+
+describe('templateFeedback', () => {
+  test('confirms passed tests', () => {
+    expect(templateFeedback(request([result(true), result(true)]), docs)).toBe('Усі тести пройдено (2/2).')
+  })
+
+  test('lists up to three failed tests', () => {
+    const feedback = templateFeedback(request([result(true), ...Array.from({ length: 5 }, () => result(false))]), docs)
+    expect(feedback).toStartWith('Пройдено 1 з 6 тестів.')
+    expect(feedback).toContain('- Вхід: 1, 2; очікувалось: 3; отримано: 4')
+    expect(feedback).toContain('- ...та ще 2')
+  })
+
+  test('hints at the outcome and adds the matching docs section', () => {
+    const feedback = templateFeedback(request([result(false, { outcome: 'timeout', actual: 'TIMEOUT' })]), docs)
+    expect(feedback).toContain('отримано: timeout')
+    expect(feedback).toContain('не завершилась вчасно')
+    expect(feedback).toContain('### Loops\nЦикл `перебрати`.')
+    expect(feedback).not.toContain('Variables & Naming')
+  })
+
+  test('never reveals the expected implementation', () => {
+    const feedback = templateFeedback(request([result(false)], 'дія algorithm(a)\nкінець'), docs)
+    expect(feedback).toContain('### Variables & Naming')
+    expect(feedback).not.toContain('вернути а + б')
+  })
+
+  test('turns each kind of analyzer diagnostic into one hint with its line', () => {
+    const code = 'дія алгоритм(а)\n  якщо а та а\n    вернути value\n  кінець\n  вернути other\nкінець'
+    const feedback = templateFeedback(request([result(false)], code), docs)
+    expect(feedback.match(/Латинські літери/g)).toHaveLength(1)
+    expect(feedback).toContain('(рядок 3).')
+  })
+})
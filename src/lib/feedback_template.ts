@@ -0,0 +1,120 @@
+import { analyzeMavkaCode, type Diagnostic, type DiagnosticCode } from './analyze_mavka'
+import type { FeedbackRequest } from './gen_feedback'
+import type { TestResult } from './types'
+
+// Детермінований фідбек без LLM: підказки з провалених тест-кейсів та статичного аналізу коду,
+// доповнені відповідними розділами `docs.md`. Еталонний код у фідбек не потрапляє.
+
+interface Hint {
+  message: string
+  // Частина заголовка розділу `docs.md`, що пояснює проблему
+  section: string
+}
+
+interface DocsSection {
+  title: string
+  body: string
+}
+
+const maxShownFailures = 3
+
+function parseDocsSections(docs: string): DocsSection[] {
+  const sections: DocsSection[] = []
+  for (const part of docs.split(/^(?=#{2,3} )/m)) {
+    const [heading = '', ...body] = part.split('\n')
+    if (!heading.startsWith('##')) continue
+    sections.push({
+      title: heading.replace(/^#+\s*/, '').trim(),
+      body: body
+        .join('\n')
+        .replace(/\n-{3,}\s*$/, '')
+        .trim()
+    })
+  }
+  return sections
+}
+
+// Розділ `docs.md` для кожного виду діагностики статичного аналізу
+const diagnosticSections: Record<DiagnosticCode, string> = {
+  'missing-algorithm': 'Function Definition',
+  'misnamed-algorithm': 'Function Definition',
+  'top-level-side-effect': 'Function Definition',
+  'top-level-statement': 'Function Definition',
+  'latin-identifier': 'Variables & Naming',
+  'unsupported-characters': 'Variables & Naming',
+  'em-dash': 'Broken Features',
+  'and-operator': 'Conditional Logic',
+  'return-in-loop': 'Loops',
+  'loop-syntax': 'Loops',
+  'list-length': 'Lists & Arrays',
+  'standard-library': 'Broken Features',
+  'math-in-condition': 'Safe Arithmetic'
+}
+
+// Одна підказка на кожен вид діагностики (перше входження), спершу помилки
+function codeHints(diagnostics: Diagnostic[]): Hint[] {
+  const seen = new Set<DiagnosticCode>()
+  const hints: Hint[] = []
+  const ordered = [...diagnostics].sort((a, b) => Number(a.severity === 'warning') - Number(b.severity === 'warning'))
+  for (const d of ordered) {
+    if (seen.has(d.code)) continue
+    seen.add(d.code)
+    hints.push({ message: `${d.message} (рядок ${d.line}).`, section: diagnosticSections[d.code] })
+  }
+  return hints
+}
+
+function outcomeHints(failed: TestResult[]): Hint[] {
+  const hints: Hint[] = []
+  const outcomes = new Set(failed.map((t) => t.outcome))
+  if (outcomes.has('timeout'))
+    hints.push({
+      message: 'На деяких тестах програма не завершилась вчасно -- перевірте умови виходу з циклів.',
+      section: 'Loops'
+    })
+  if (outcomes.has('output-limit'))
+    hints.push({
+      message: 'Програма виводить забагато даних -- ймовірно, нескінченний цикл чи зайвий друк.',
+      section: 'Loops'
+    })
+  const crash = failed.find((t) => t.outcome === 'crash')
+  if (crash)
+    hints.push({
+      message: `Програма завершилась з помилкою: ${crash.actual.replace(/^ERROR:\s*/, '').split('\n')[0]}`,
+      section: 'Broken Features'
+    })
+  return hints
+}
+
+export function templateFeedback(request: FeedbackRequest, docs: string): string {
+  const { testResults, userImplementation, diagnostics } = request
+  const failed = testResults.filter((t) => !t.passed)
+  if (!failed.length) return `Усі тести пройдено (${testResults.length}/${testResults.length}).`
+
+  const hints = [...codeHints(diagnostics ?? analyzeMavkaCode(userImplementation)), ...outcomeHints(failed)]
+  if (!hints.length)
+    hints.push({
+      message: 'Програма працює, але результат неправильний -- уважно перечитайте опис алгоритму та граничні випадки.',
+      section: 'TEMPLATE'
+    })
+
+  const shown = failed.slice(0, maxShownFailures).map((t) => {
+    const actual = t.outcome === 'failed' ? t.actual : t.outcome
+    return `- Вхід: ${t.input}; очікувалось: ${t.expected}; отримано: ${actual}`
+  })
+  if (failed.length > shown.length) shown.push(`- ...та ще ${failed.length - shown.length}`)
+
+  const sections = parseDocsSections(docs)
+  const relevant = [...new Set(hints.map((h) => h.section))]
+    .map((name) => sections.find((s) => s.title.includes(name)))
+    .filter((s) => s !== undefined)
+
+  return [
+    `Пройдено ${testResults.length - failed.length} з ${testResults.length} тестів.`,
+    `Проблемні тести:\n${shown.join('\n')}`,
+    `Що варто перевірити:\n${hints.map((h, i) => `${i + 1}. ${h.message}`).join('\n')}`,
+    ...(relevant.length
+      ? [`Відповідні розділи документації:\n\n${relevant.map((s) => `### ${s.title}\n${s.body}`).join('\n\n')}`]
+      : [])
+  ].join('\n\n')
+}
@@ -0,0 +1,31 @@
+import { describe, expect, test } from 'bun:test'
+import runs from '../../2_runs.json'
+import { selectRuns } from './filters'
+
+describe('selectRuns', () => {
+  test('combines conditions and keeps the order of 2_runs.json', () => {
+    const { runs: selected, dependencies } = selectRuns(runs, { algorithms: [18, 118], conflicted: true })
+    expect(selected.map((r) => [r.algorithm.number, r.type, r.isAfterFeedback])).toEqual([
+      [118, 'implement', false],
+      [118, 'review', true]
+    ])
+    expect(dependencies).toEqual([])
+  })
+
+  test('without conditions selects every run', () => {
+    expect(selectRuns(runs, {}).runs).toEqual(runs)
+  })
+
+  test('adds the first run of a selected second run', () => {
+    const { runs: selected, dependencies } = selectRuns(runs, { types: ['review'] })
+    const first = runs.find((r) => r.algorithm.number === 18 && !r.isAfterFeedback)
+    expect(dependencies).toContain(first as (typeof runs)[0])
+    expect(dependencies.every((r) => r.type === 'implement')).toBe(true)
+    expect(selected).toEqual(runs.filter((r) => selected.includes(r)))
+  })
+
+  test('fails on a second run without its first run', () => {
+    const second = runs.find((r) => r.isAfterFeedback) as (typeof runs)[0]
+    expect(() => selectRuns([second], {})).toThrow(`No first run found for isAfterFeedback run ${second.uuid}`)
+  })
+})
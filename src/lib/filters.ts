@@ -0,0 +1,31 @@
+import type runs from '../../2_runs.json'
+
+type Run = (typeof runs)[0]
+
+// Відбір запусків для eval. Усі умови поєднуються через "і"; незадана умова не обмежує вибір
+export interface RunFilter {
+  algorithms?: number[]
+  types?: Run['type'][]
+  // `true` -- лише конфліктні, `false` -- лише звичайні
+  conflicted?: boolean
+}
+
+const matches = (run: Run, filter: RunFilter) =>
+  (!filter.algorithms || filter.algorithms.includes(run.algorithm.number)) &&
+  (!filter.types || filter.types.includes(run.type)) &&
+  (filter.conflicted === undefined || run.isConflicted === filter.conflicted)
+
+// Повертає відібрані запуски в порядку `2_runs.json`. Для кожного `isAfterFeedback` запуску також
+// додається перший запуск, фідбек якого він продовжує (навіть якщо той не проходить фільтр)
+export function selectRuns(all: Run[], filter: RunFilter): { runs: Run[]; dependencies: Run[] } {
+  const selected = new Set(all.filter((run) => matches(run, filter)))
+  const dependencies: Run[] = []
+  for (const run of selected) {
+    if (!run.isAfterFeedback) continue
+    const firstRun = all.find((r) => r.uuidFeedback === run.uuid)
+    if (!firstRun) throw new Error(`No first run found for isAfterFeedback run ${run.uuid}`)
+    if (!selected.has(firstRun)) dependencies.push(firstRun)
+  }
+  for (const run of dependencies) selected.add(run)
+  return { runs: all.filter((run) => selected.has(run)), dependencies }
+}
@@ -1,15 +1,39 @@
-import { llmFeedback } from '../conf'
+import { AzureChatOpenAI, ChatOpenAI } from '@langchain/openai'
+import { env } from 'bun'
+import { type FeedbackConfig, feedback, feedbackCache } from '../conf'
+import { type Diagnostic, formatDiagnostic } from './analyze_mavka'
+import { FeedbackCacheMissError, feedbackCacheKey, readCachedFeedback, writeCachedFeedback } from './feedback_cache'
+import { templateFeedback } from './feedback_template'
 import type { TestResult } from './types'
 
 const docs = await Bun.file('./src/lib/docs.md').text()
 
-export async function generateFeedback(
-  algorithmText: string,
-  userImplementation: string,
-  testResults: TestResult[],
+export interface FeedbackRequest {
+  algorithmText: string
+  userImplementation: string
+  testResults: TestResult[]
   expectedImplementation: string
-) {
-  const prompt = `
+  // Діагностики статичного аналізу (лише з `feedbackDiagnostics`)
+  diagnostics?: Diagnostic[]
+}
+
+export interface FeedbackProvider {
+  // Назва для спанів та результатів, напр. `openai:qwen2.5-coder`
+  name: string
+  generate(request: FeedbackRequest): Promise<string>
+}
+
+// Змініть, якщо змінюється промпт чи `docs.md` -- інакше кеш повертатиме фідбек на старий промпт
+export const feedbackPromptVersion = 1
+
+function feedbackPrompt({
+  algorithmText,
+  userImplementation,
+  testResults,
+  expectedImplementation,
+  diagnostics
+}: FeedbackRequest) {
+  return `
 Provide feedback for the user's implementation of following algorithm in Mavka -- a Ukrainian programming language.
 
 Brief Mavka language docs with examples of correct code:
@@ -39,7 +63,7 @@ Test results:
 ${testResults
   .map(
     (t, i) => `
-Test ${i + 1}: ${t.passed ? '✅ Passed' : '❌ Failed'}
+Test ${i + 1}: ${t.passed ? '✅ Passed' : `❌ Failed (${t.outcome})`}
   Input: ${t.input}
   Expected: ${t.expected}
   Actual: ${t.actual}
@@ -47,7 +71,16 @@ Test ${i + 1}: ${t.passed ? '✅ Passed' : '❌ Failed'}
   )
   .join('\n')}
 </test_results>
-
+${
+  diagnostics?.length
+    ? `
+Issues found by a static analyzer of the user's code (line numbers refer to the user's code; the analyzer is heuristic, so verify each issue before mentioning it):
+<static_analysis>
+${diagnostics.map(formatDiagnostic).join('\n')}
+</static_analysis>
+`
+    : ''
+}
 First, analyze the user's code. Then, provide constructive, guiding, applicable, and rather short feedback in Ukrainian on what can be improved in the user's code -- based on the docs, test results, and the ideal implementation.
 Note that you are NOT to suggest the right answer directly, or give overly specific examples based on the user's code. Instead, mention the applicable specifics in the documentation or algorithm description related to what the user should pay the most attention to (hinting/pointing at the right solution).
 Basically, be a mentor, not a solution provider -- the user should arrive to the right solution by themselves.
@@ -55,7 +88,75 @@ Do not mention general things that are not directly relevant to the user's mista
 
 Return only your concise feedback in Ukrainian and nothing else.
 `
+}
+
+type ChatModel = Pick<ChatOpenAI, 'invoke'>
+
+function llmProvider(name: string, model: () => ChatModel): FeedbackProvider {
+  return {
+    name,
+    generate: async (request) => (await model().invoke(feedbackPrompt(request))).text
+  }
+}
+
+export const feedbackProviders: Record<FeedbackConfig['provider'], (config: FeedbackConfig) => FeedbackProvider> = {
+  azure: (config) =>
+    llmProvider(
+      `azure:${config.model}`,
+      () =>
+        new AzureChatOpenAI({
+          model: config.model,
+          maxRetries: 3,
+          timeout: 30 * 1000, // 30 seconds
+          azureOpenAIApiKey: config.apiKey ?? env.AZURE_KEY,
+          azureOpenAIApiInstanceName: env.AZURE_INSTANCE,
+          azureOpenAIApiDeploymentName: config.model,
+          azureOpenAIApiVersion: '2025-04-01-preview',
+          modelKwargs: {
+            seed: 42
+          }
+        })
+    ),
+  openai: (config) =>
+    llmProvider(
+      `openai:${config.model}`,
+      () =>
+        new ChatOpenAI({
+          model: config.model,
+          maxRetries: 3,
+          timeout: 30 * 1000,
+          // Локальні сервери (llama.cpp, vLLM) зазвичай не перевіряють ключ, але клієнт його вимагає
+          apiKey: config.apiKey ?? env.OPENAI_API_KEY ?? 'none',
+          configuration: { baseURL: config.baseUrl },
+          modelKwargs: {
+            seed: 42
+          }
+        })
+    ),
+  template: () => ({ name: 'template', generate: async (request) => templateFeedback(request, docs) })
+}
+
+export const feedbackProvider = () => feedbackProviders[feedback.provider](feedback)
+
+// Фідбек з урахуванням кешу (`feedbackCache`); `cache` -- чи взято його з кешу
+export async function generateFeedback(
+  provider: FeedbackProvider,
+  request: FeedbackRequest
+): Promise<{ text: string; provider: string; cache: 'hit' | 'miss' | 'off' }> {
+  if (feedbackCache === 'off') return { text: await provider.generate(request), provider: provider.name, cache: 'off' }
+
+  const key = feedbackCacheKey(request, feedbackPromptVersion, provider.name)
+  const cached = await readCachedFeedback(key)
+  if (cached) return { text: cached.feedback, provider: cached.provider, cache: 'hit' }
+  if (feedbackCache === 'replay') throw new FeedbackCacheMissError(key)
 
-  const feedback = await llmFeedback().invoke(prompt)
-  return feedback.text
+  const text = await provider.generate(request)
+  await writeCachedFeedback({
+    key,
+    promptVersion: feedbackPromptVersion,
+    provider: provider.name,
+    createdAt: new Date().toISOString(),
+    feedback: text
+  })
+  return { text, provider: provider.name, cache: 'miss' }
 }
@@ -0,0 +1,67 @@
+import { describe, expect, test } from 'bun:test'
+import runs from '../../2_runs.json'
+import learnings from '../../learnings.json'
+import { familySpecSchema, generateRunFamily, readAlgorithmDoc, verifyRunFamily } from './generate_runs'
+
+const staticOnly = { execute: false }
+const variant = { idealMavkaCode: 'дія алгоритм(а)\n  вернути а\nкінець', testCases: '1 -> 1' }
+
+test('readAlgorithmDoc takes the name and the algorithm section from the file', async () => {
+  const doc = await readAlgorithmDoc(18)
+  const run = runs.find((r) => r.algorithm.number === 18)
+  expect(doc.file).toBe('1_learning/2_algorithms/018_Алгоритм_бабусиної_порції.md')
+  expect(doc.name).toBe(run?.algorithm.name as string)
+  expect(doc.algorithmPlain).toBe(run?.private.algorithmPlain as string)
+})
+
+describe('generateRunFamily', () => {
+  test('links the first run, its twin and the conflicting variant', async () => {
+    const family = await generateRunFamily({
+      number: 18,
+      ...variant,
+      conflicting: { ...variant, mavkaCodeToReview: 'дія алгоритм(а)\n  вернути 0\nкінець' }
+    })
+    expect(family.map((r) => [r.algorithm.number, r.type, r.isConflicted, r.isAfterFeedback])).toEqual([
+      [18, 'implement', false, false],
+      [18, 'implement', false, true],
+      [118, 'implement', true, false],
+      [118, 'review', true, true]
+    ])
+    const [first, second, conflicted, conflictedSecond] = family
+    expect(first?.uuidFeedback).toBe(second?.uuid as string)
+    expect(conflicted?.uuidFeedback).toBe(conflictedSecond?.uuid as string)
+    expect(conflicted?.uuidConflictingDocs).toBe(first?.uuid as string)
+    expect(conflictedSecond?.uuidConflictingDocs).toBeUndefined()
+    expect(conflictedSecond?.mavkaCodeToReview).toBeDefined()
+  })
+
+  test('accepts test cases in the JSON format', async () => {
+    const testCases = [{ args: [1], expected: '1' }]
+    const [first] = await generateRunFamily(familySpecSchema.parse({ number: 18, ...variant, testCases }))
+    expect(first?.private.testCases).toEqual(testCases)
+  })
+
+  test('rejects code to review without a review run', async () => {
+    await expect(
+      generateRunFamily({ number: 18, ...variant, mavkaCodeToReview: 'код', types: ['implement', 'implement'] })
+    ).rejects.toThrow('Algorithm 18: mavkaCodeToReview is given, but neither run is a review')
+  })
+})
+
+describe('verifyRunFamily', () => {
+  test('accepts a new family', async () => {
+    const family = await generateRunFamily({ number: 18, ...variant })
+    const existing = runs.filter((r) => r.algorithm.number !== 18)
+    expect(await verifyRunFamily(family, existing, learnings, staticOnly)).toEqual([])
+  })
+
+  test('reports an algorithm that already has runs', async () => {
+    const family = await generateRunFamily({ number: 18, ...variant })
+    const issues = await verifyRunFamily(family, runs, learnings, staticOnly)
+    expect(issues).toContainEqual({
+      severity: 'error',
+      subject: 'algorithm 18',
+      message: 'Runs for this algorithm already exist'
+    })
+  })
+})
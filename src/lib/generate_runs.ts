@@ -0,0 +1,169 @@
+import z from 'zod'
+import { comparatorSchema } from './comparators'
+import {
+  type DatasetIssue,
+  type DatasetRun,
+  formatTestFailure,
+  runSchema,
+  testCasesSchema,
+  type ValidateOptions,
+  validateDataset
+} from './dataset'
+import { runLabel, runRecordBase } from './results'
+import { testMavkaCode } from './run_mavka'
+
+// Генерація родини запусків алгоритму для `2_runs.json`: перший запуск та його `isAfterFeedback` двійник,
+// а для конфліктного варіанту (алгоритм N+100) -- ще два запуски з `uuidConflictingDocs` на перший запуск N
+
+const runType = z.enum(['implement', 'review'])
+
+const variantSchema = z
+  .object({
+    idealMavkaCode: z.string().min(1),
+    testCases: testCasesSchema,
+    // Код з помилками для `review` запусків
+    mavkaCodeToReview: z.string().min(1).optional(),
+    comparator: comparatorSchema.optional(),
+    // Очікувані посилання агента; за замовчуванням -- файл алгоритму
+    expectedReferences: z.array(z.string().min(1)).optional(),
+    // Типи першого запуску та запуску після фідбеку; за замовчуванням implement, а після фідбеку --
+    // review, якщо є `mavkaCodeToReview`
+    types: z.tuple([runType, runType]).optional()
+  })
+  .strict()
+
+export const familySpecSchema = variantSchema
+  .extend({
+    number: z.number().int().min(1).max(99),
+    // Конфліктний варіант: опис береться з файлу алгоритму N+100
+    conflicting: variantSchema.optional()
+  })
+  .strict()
+export type FamilySpec = z.infer<typeof familySpecSchema>
+type VariantSpec = z.infer<typeof variantSchema>
+
+interface AlgorithmDoc {
+  file: string
+  name: string
+  // Розділ `## Алгоритм ...` файлу (без вступу) -- саме його отримує агент у quick-test та фідбеку
+  algorithmPlain: string
+}
+
+export async function readAlgorithmDoc(number: number): Promise<AlgorithmDoc> {
+  const padded = String(number).padStart(3, '0')
+  const files = await Array.fromAsync(new Bun.Glob(`1_learning/2_algorithms/${padded}_*.md`).scan('.'))
+  const [file] = files
+  if (!file || files.length > 1)
+    throw new Error(`Expected exactly one 1_learning/2_algorithms/${padded}_*.md file, found ${files.length}`)
+
+  const markdown = await Bun.file(file).text()
+  const start = markdown.search(/^## /m)
+  if (start === -1) throw new Error(`${file} has no "## " algorithm section`)
+  const section = markdown.slice(start)
+  const end = section.slice(3).search(/^## /m)
+  const algorithmPlain = (end === -1 ? section : section.slice(0, end + 3)).trim()
+  const name = algorithmPlain
+    .split('\n', 1)[0]
+    ?.replace(/^##\s*/, '')
+    .trim()
+  if (!name) throw new Error(`${file} has an empty algorithm heading`)
+  return { file, name, algorithmPlain }
+}
+
+function variantRuns(
+  number: number,
+  doc: AlgorithmDoc,
+  variant: VariantSpec,
+  conflictingDocs?: string
+): [DatasetRun, DatasetRun] {
+  const [firstType, secondType] = variant.types ?? ['implement', variant.mavkaCodeToReview ? 'review' : 'implement']
+  if (variant.mavkaCodeToReview && firstType !== 'review' && secondType !== 'review')
+    throw new Error(`Algorithm ${number}: mavkaCodeToReview is given, but neither run is a review`)
+  const isConflicted = number > 100
+  const entry = (type: 'implement' | 'review', isAfterFeedback: boolean, uuid: string, uuidFeedback?: string) =>
+    runSchema.parse({
+      uuid,
+      ...(!isAfterFeedback && conflictingDocs && { uuidConflictingDocs: conflictingDocs }),
+      ...(uuidFeedback && { uuidFeedback }),
+      algorithm: { number, name: doc.name },
+      type,
+      ...(type === 'review' && { mavkaCodeToReview: variant.mavkaCodeToReview }),
+      isConflicted,
+      isAfterFeedback,
+      private: {
+        testCases: variant.testCases,
+        algorithmPlain: doc.algorithmPlain,
+        idealMavkaCode: variant.idealMavkaCode,
+        ...(variant.comparator && { comparator: variant.comparator }),
+        expectedReferences: variant.expectedReferences ?? [doc.file]
+      }
+    })
+  const secondUuid = crypto.randomUUID()
+  return [entry(firstType, false, crypto.randomUUID(), secondUuid), entry(secondType, true, secondUuid)]
+}
+
+// Нові запуски з новими uid: перший запуск N, його двійник, та (опційно) ті самі два для N+100
+export async function generateRunFamily(spec: FamilySpec): Promise<DatasetRun[]> {
+  const base = variantRuns(spec.number, await readAlgorithmDoc(spec.number), spec)
+  if (!spec.conflicting) return base
+  const conflictingNumber = spec.number + 100
+  const conflicting = variantRuns(
+    conflictingNumber,
+    await readAlgorithmDoc(conflictingNumber),
+    spec.conflicting,
+    base[0].uuid
+  )
+  return [...base, ...conflicting]
+}
+
+// Перевіряє нову родину так, ніби її вже додано в кінець `existingRuns`: звʼязки та uid (`validateDataset`),
+// навчання файлу алгоритму, а з `execute` -- що еталонний код проходить тест-кейси, а код для review -- ні
+export async function verifyRunFamily(
+  family: DatasetRun[],
+  existingRuns: unknown[],
+  learnings: unknown[],
+  options: ValidateOptions
+): Promise<DatasetIssue[]> {
+  const labels = family.map((run, i) => runLabel(runRecordBase(run, existingRuns.length + i)))
+  const issues = (await validateDataset([...existingRuns, ...family], learnings, { execute: false })).filter((issue) =>
+    labels.includes(issue.subject)
+  )
+  const error = (subject: string, message: string) => issues.push({ severity: 'error', subject, message })
+
+  const numbers = new Set(family.map((run) => run.algorithm.number))
+  for (const number of numbers)
+    if (existingRuns.some((run) => (run as Partial<DatasetRun>).algorithm?.number === number))
+      error(`algorithm ${number}`, 'Runs for this algorithm already exist')
+
+  const baseFile = (await readAlgorithmDoc(Math.min(...numbers))).file
+  if (!learnings.some((learning) => (learning as { file?: string }).file === baseFile))
+    issues.push({
+      severity: 'warning',
+      subject: baseFile,
+      message: 'Algorithm file is not in learnings, so the agent never learns it during eval'
+    })
+
+  if (!options.execute) return issues
+
+  // Двійники мають той самий код і тести, тож кожен варіант перевіряється один раз
+  const variants = family.filter((run) => !run.isAfterFeedback)
+  for (const [i, run] of variants.entries()) {
+    const label = labels[family.indexOf(run)] ?? `algorithm ${run.algorithm.number}`
+    options.onExecute?.(label, i, variants.length)
+    const twin = family.find((r) => r.uuid === run.uuidFeedback)
+    const codeToReview = run.mavkaCodeToReview ?? twin?.mavkaCodeToReview
+    try {
+      const results = await testMavkaCode(run.private.idealMavkaCode, run.private.testCases, run.private.comparator)
+      for (const [n, t] of results.entries())
+        if (!t.passed) error(label, `idealMavkaCode fails ${formatTestFailure(t, n)}`)
+      if (codeToReview) {
+        const buggy = await testMavkaCode(codeToReview, run.private.testCases, run.private.comparator)
+        if (buggy.every((t) => t.passed))
+          error(label, 'mavkaCodeToReview passes all test cases, so there is nothing to fix')
+      }
+    } catch (e) {
+      error(label, `Code could not be tested: ${(e as Error).message}`)
+    }
+  }
+  return issues
+}
@@ -0,0 +1,91 @@
+import { describe, expect, test } from 'bun:test'
+import runs from '../../2_runs.json'
+import { highlightMavka, toHtmlReport } from './html_report'
+import { computeBreakdown } from './report'
+import { type EvalResults, type RunRecord, resultsVersion, runRecordBase } from './results'
+
+const [run] = runs as [(typeof runs)[0]]
+
+const results = (records: RunRecord[], overrides: Partial<EvalResults> = {}): EvalResults => {
+  const breakdown = computeBreakdown(records)
+  return {
+    version: resultsVersion,
+    evalId: 'eval',
+    mode: 'test',
+    startedAt: '2026-01-01T00:00:00.000Z',
+    finishedAt: '2026-01-01T00:01:00.000Z',
+    agentUrl: 'http://localhost:3000/text',
+    score: breakdown.categories.overall?.score ?? 0,
+    breakdown,
+    timings: { learn: [], task: [] },
+    agentCalls: { calls: 1, attempts: 1, retries: 0, failedCalls: 0, circuitOpen: false },
+    learnings: [],
+    runs: records,
+    ...overrides
+  }
+}
+
+describe('highlightMavka', () => {
+  test('marks keywords, strings, numbers and comments', () => {
+    expect(highlightMavka('дія а() ;; коментар\n  вернути "так" + 1\nкінець')).toBe(
+      '<span class="k">дія</span> а() <span class="c">;; коментар</span>\n  <span class="k">вернути</span> <span class="s">&#34;так&#34;</span> + <span class="n">1</span>\n<span class="k">кінець</span>'
+    )
+  })
+
+  test('escapes HTML in code and tokens', () => {
+    expect(highlightMavka('а < б & "<b>"')).toBe('а &#60; б &#38; <span class="s">&#34;&#60;b&#62;&#34;</span>')
+  })
+})
+
+describe('toHtmlReport', () => {
+  test('escapes agent output, errors and eval metadata', () => {
+    const html = toHtmlReport(
+      results(
+        [
+          {
+            ...runRecordBase(run, 0),
+            response: '<script>alert(1)</script>',
+            code: 'вернути "</pre>"',
+            score: 0
+          },
+          { ...runRecordBase(run, 1), error: 'Agent said <img src=x onerror=alert(1)>' }
+        ],
+        { evalId: '<eval>', aborted: 'it\'s "over"' }
+      )
+    )
+    expect(html).not.toContain('<script>alert(1)</script>')
+    expect(html).not.toContain('<img')
+    expect(html).toContain('&#60;script&#62;alert(1)&#60;/script&#62;')
+    expect(html).toContain('<title>Eval &#60;eval&#62;</title>')
+    expect(html).toContain('it&#39;s &#34;over&#34;')
+    expect(html.match(/<script>/g)).toHaveLength(1)
+  })
+
+  test('links each row of the runs table to its details', () => {
+    const html = toHtmlReport(results([{ ...runRecordBase(run, 0), score: 1 }]))
+    expect(html).toContain('<tr class="solved"><td data-value="0"><a href="#run-0">1</a></td>')
+    expect(html).toContain('<details class="run" id="run-0">')
+  })
+
+  test('diffs the extracted code against the ideal implementation', () => {
+    const code = `${run.private.idealMavkaCode}\n;; зайве`
+    const html = toHtmlReport(results([{ ...runRecordBase(run, 0), code, score: 1 }]))
+    expect(html).toContain('<span class="add">+ ;; зайве</span>')
+    expect(html).not.toContain('<span class="del">')
+  })
+
+  test('tells when the run is not in 2_runs.json', () => {
+    const record = { ...runRecordBase({ ...run, uuid: '00000000-0000-4000-8000-000000000000' }, 0), code: '' }
+    expect(toHtmlReport(results([record]))).toContain('<p>Run not found in 2_runs.json.</p>')
+  })
+  test('shows how the references were graded', () => {
+    const record: RunRecord = {
+      ...runRecordBase(run, 0),
+      references: ['a.md', '<b>'],
+      referenceGrade: { files: ['a.md'], unresolved: ['<b>'], expected: ['a.md'], precision: 0.5, recall: 1 }
+    }
+    const html = toHtmlReport(results([record]))
+    expect(html).toContain('<p>Unresolved: &#60;b&#62;</p>')
+    expect(html).toContain('<p>Expected: a.md (precision 50.00%, recall 100.00%)</p>')
+  })
+})
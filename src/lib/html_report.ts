@@ -0,0 +1,365 @@
+import runs from '../../2_runs.json'
+import { formatDiagnostic } from './analyze_mavka'
+import type { CategoryScore, ScoreBreakdown } from './report'
+import { type EvalResults, type RunRecord, runLabel } from './results'
+import { findSampledRun } from './sampling'
+import type { TestResult } from './types'
+
+// Статичний HTML-звіт eval (один файл без зовнішніх ресурсів): підсумок, категорії, таблиця запусків
+// з сортуванням та деталі кожного запуску (промпт, відповідь, код, різниця з еталоном, тести, фідбек)
+
+const escapeHtml = (s: string) => s.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`)
+const pct = (n: number) => `${(n * 100).toFixed(2)}%`
+const signedPct = (n: number) => `${n >= 0 ? '+' : ''}${pct(n)}`
+const pre = (text: string, className = '') => `<pre class="${className}">${escapeHtml(text)}</pre>`
+
+// --- Підсвітка синтаксису Мавки ---
+
+const mavkaKeywords = new Set([
+  'дія',
+  'якщо',
+  'інакше',
+  'поки',
+  'перебрати',
+  'як',
+  'кінець',
+  'вернути',
+  'спробувати',
+  'зловити',
+  'впасти',
+  'структура',
+  'модуль',
+  'взяти',
+  'пусто',
+  'так',
+  'ні',
+  'і',
+  'або',
+  'не',
+  'є',
+  'рівно',
+  'більше',
+  'менше',
+  'чекати',
+  'тривала'
+])
+
+// Коментар (`;;` чи `;* *;`, незакритий -- до кінця), текст, число чи слово
+const mavkaToken = /(;\*[\s\S]*?(?:\*;|$)|;;[^\n]*)|("(?:\\.|[^"\\\n])*"?)|(\d+(?:\.\d+)?)|([\p{L}_][\p{L}\d_ʼ']*)/gu
+
+export function highlightMavka(code: string): string {
+  let html = ''
+  let last = 0
+  for (const match of code.matchAll(mavkaToken)) {
+    const [token, comment, text, number, word] = match
+    html += escapeHtml(code.slice(last, match.index))
+    last = match.index + token.length
+    const className = comment ? 'c' : text ? 's' : number ? 'n' : word && mavkaKeywords.has(word) ? 'k' : undefined
+    html += className ? `<span class="${className}">${escapeHtml(token)}</span>` : escapeHtml(token)
+  }
+  return html + escapeHtml(code.slice(last))
+}
+
+// --- Порівняння з еталонним кодом (построково, найдовша спільна підпослідовність) ---
+
+type DiffLine = { op: ' ' | '-' | '+'; line: string }
+
+function lineDiff(before: string, after: string): DiffLine[] {
+  const a = before.split('\n')
+  const b = after.split('\n')
+  // common(i, j) -- довжина спільної підпослідовності a[i..] та b[j..]
+  const table = new Array<number>((a.length + 1) * (b.length + 1)).fill(0)
+  const common = (i: number, j: number) => table[i * (b.length + 1) + j] ?? 0
+  for (let i = a.length - 1; i >= 0; i--)
+    for (let j = b.length - 1; j >= 0; j--)
+      table[i * (b.length + 1) + j] =
+        a[i] === b[j] ? common(i + 1, j + 1) + 1 : Math.max(common(i + 1, j), common(i, j + 1))
+
+  const diff: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      diff.push({ op: ' ', line: a[i++] ?? '' })
+      j++
+    } else if (j < b.length && (i === a.length || common(i, j + 1) >= common(i + 1, j)))
+      diff.push({ op: '+', line: b[j++] ?? '' })
+    else diff.push({ op: '-', line: a[i++] ?? '' })
+  }
+  return diff
+}
+
+const renderDiff = (diff: DiffLine[]) =>
+  `<pre class="diff">${diff
+    .map(
+      ({ op, line }) => `<span class="${op === '+' ? 'add' : op === '-' ? 'del' : ''}">${op} ${escapeHtml(line)}</span>`
+    )
+    .join('\n')}</pre>`
+
+// --- Розділи звіту ---
+
+function renderSummary(results: EvalResults): string {
+  const avg = (arr: number[]) => (arr.length ? Math.round(arr.reduce((a, b) => a + b, 0) / arr.length) : 0)
+  const errors = results.runs.filter((r) => r.score === undefined).length
+  const solved = results.runs.filter((r) => r.score === 1).length
+  const { agentCalls } = results
+  const items: [string, string][] = [
+    ['Final score', pct(results.score)],
+    ['Runs', `${results.runs.length} (${solved} fully solved, ${errors} errors)`],
+    ['Mode', results.mode],
+    ...(results.curriculum ? [['Curriculum', results.curriculum] as [string, string]] : []),
+    ['Agent', results.agentUrl],
+    ['Time', `${results.startedAt} - ${results.finishedAt}`],
+    ['Average time', `learn=${avg(results.timings.learn)}ms, task=${avg(results.timings.task)}ms`],
+    [
+      'Agent calls',
+      `${agentCalls.calls} calls, ${agentCalls.attempts} attempts (${agentCalls.retries} retries), ${agentCalls.failedCalls} failed`
+    ]
+  ]
+  if (results.rescoredFrom) items.push(['Rescored from', results.rescoredFrom])
+  if (results.aborted) items.push(['Aborted', results.aborted])
+  const failedLearnings = results.learnings.filter((l) => !l.success)
+  if (failedLearnings.length)
+    items.push(['Failed learnings', failedLearnings.map((l) => `${l.file} (${l.error})`).join(', ')])
+  return `<dl class="summary">${items.map(([k, v]) => `<dt>${k}</dt><dd>${escapeHtml(v)}</dd>`).join('')}</dl>`
+}
+
+function renderBreakdown(breakdown: ScoreBreakdown): string {
+  // Колонки якості посилань -- лише якщо їх оцінено хоч для одного запуску
+  const graded = Object.values(breakdown.categories).some((c) => c.references)
+  const referenceCells = (c: CategoryScore) => {
+    if (!graded) return ''
+    const precision = c.references?.precision
+    const recall = c.references?.recall
+    return `<td data-value="${precision ?? -1}">${precision !== undefined ? pct(precision) : ''}</td><td data-value="${recall ?? -1}">${recall !== undefined ? pct(recall) : ''}</td>`
+  }
+  const scoreRows = (scores: ScoreBreakdown['categories']) =>
+    Object.entries(scores)
+      .map(
+        ([name, c]) =>
+          `<tr><td>${escapeHtml(name)}</td><td data-value="${c.score}">${pct(c.score)}</td><td>${c.scored}</td><td>${c.errors}</td>${referenceCells(c)}</tr>`
+      )
+      .join('')
+  const referenceHeaders = graded ? '<th data-sort="num">Ref. precision</th><th data-sort="num">Ref. recall</th>' : ''
+  const table = (title: string, scores: ScoreBreakdown['categories']) =>
+    `<table class="sortable"><thead><tr><th data-sort="text">${title}</th><th data-sort="num">Score</th><th data-sort="num">Runs</th><th data-sort="num">Errors</th>${referenceHeaders}</tr></thead><tbody>${scoreRows(scores)}</tbody></table>`
+
+  const lines = [
+    `Feedback uplift: ${signedPct(breakdown.feedbackUplift.mean)} (${breakdown.feedbackUplift.pairs.filter((p) => p.feedbackDelivered).length} pairs with feedback)`,
+    `Conflicted vs non-conflicted: ${signedPct(breakdown.conflictDelta.mean)} (${breakdown.conflictDelta.pairs.length} pairs)`
+  ]
+  const { repair, sampling } = breakdown
+  if (repair) lines.push(`Repair: pass@1 ${pct(repair.passAt1)} -> pass@${repair.k} ${pct(repair.passAtK)}`)
+  if (sampling) {
+    const overall = sampling.categories.overall
+    lines.push(
+      `Sampling: ${sampling.samples} samples, pass@1 ${pct(sampling.passAt1)}, pass@${sampling.samples} ${pct(sampling.passAtK)}${overall ? `, overall 95% CI ${pct(overall.low)} - ${pct(overall.high)}` : ''}`
+    )
+  }
+  return `<div class="tables">${table('Category', breakdown.categories)}${table('Algorithm', breakdown.algorithms)}</div><ul>${lines.map((l) => `<li>${escapeHtml(l)}</li>`).join('')}</ul>`
+}
+
+function feedbackStatus(record: RunRecord): string {
+  if (!record.feedback) return ''
+  if (record.feedback.error) return `error: ${record.feedback.error}`
+  return `${record.feedback.provider ?? 'delivered'}${record.feedback.cache === 'hit' ? ' (cache)' : ''}`
+}
+
+function renderRunsTable(records: RunRecord[]): string {
+  const rows = records.map((record, i) => {
+    const passed = record.testResults.filter((t) => t.passed).length
+    const cells = [
+      [String(record.index + 1), record.index],
+      [String(record.algorithm.number), record.algorithm.number],
+      [record.algorithm.name],
+      [record.type],
+      [[record.isConflicted && 'conflicted', record.isAfterFeedback && 'second run'].filter(Boolean).join(', ')],
+      [record.sample !== undefined ? String(record.sample + 1) : '', record.sample ?? -1],
+      [record.error !== undefined ? 'error' : pct(record.score ?? 0), record.score ?? -1],
+      [`${passed}/${record.testResults.length}`, passed],
+      [String(record.diagnostics?.length ?? 0), record.diagnostics?.length ?? 0],
+      [record.timings.agentMs !== undefined ? `${record.timings.agentMs}ms` : '', record.timings.agentMs ?? -1],
+      [feedbackStatus(record)]
+    ] as const
+    const className = record.error !== undefined ? 'error' : record.score === 1 ? 'solved' : ''
+    return `<tr class="${className}">${cells
+      .map(([text, value], column) => {
+        const content = column === 0 ? `<a href="#run-${i}">${escapeHtml(text)}</a>` : escapeHtml(text)
+        return `<td${value !== undefined ? ` data-value="${value}"` : ''}>${content}</td>`
+      })
+      .join('')}</tr>`
+  })
+  const headers: [string, 'num' | 'text'][] = [
+    ['#', 'num'],
+    ['Algorithm', 'num'],
+    ['Name', 'text'],
+    ['Type', 'text'],
+    ['Flags', 'text'],
+    ['Sample', 'num'],
+    ['Score', 'num'],
+    ['Tests', 'num'],
+    ['Diagnostics', 'num'],
+    ['Agent time', 'num'],
+    ['Feedback', 'text']
+  ]
+  return `<table class="sortable runs"><thead><tr>${headers.map(([h, sort]) => `<th data-sort="${sort}">${h}</th>`).join('')}</tr></thead><tbody>${rows.join('')}</tbody></table>`
+}
+
+const renderTests = (tests: TestResult[]) =>
+  tests.length
+    ? `<table class="tests"><thead><tr><th>#</th><th>Outcome</th><th>Input</th><th>Expected</th><th>Actual</th><th>Comparator</th><th>Time</th></tr></thead><tbody>${tests
+        .map(
+          (t, n) =>
+            `<tr class="${t.passed ? 'solved' : 'error'}"><td>${n + 1}</td><td>${t.outcome}</td><td>${pre(t.input)}</td><td>${pre(t.expected)}</td><td>${pre(t.actual)}</td><td>${escapeHtml(t.comparator)}</td><td>${t.ms !== undefined ? `${t.ms}ms` : ''}</td></tr>`
+        )
+        .join('')}</tbody></table>`
+    : '<p>No tests were run.</p>'
+
+const section = (title: string, content: string) => `<h3>${title}</h3>${content}`
+
+// Посилання агента з файлами, на які вони вказують, та оцінка відносно `expectedReferences`
+function renderReferences(record: RunRecord): string {
+  const grade = record.referenceGrade
+  const parts = record.references?.length ? [pre(record.references.join('\n'))] : ['<p>No references returned.</p>']
+  if (!grade) return parts.join('')
+  if (grade.files.length) parts.push(`<p>Resolved to: ${grade.files.map(escapeHtml).join(', ')}</p>`)
+  if (grade.unresolved.length) parts.push(`<p>Unresolved: ${grade.unresolved.map(escapeHtml).join(', ')}</p>`)
+  if (grade.expected)
+    parts.push(
+      `<p>Expected: ${grade.expected.map(escapeHtml).join(', ')} (precision ${grade.precision !== undefined ? pct(grade.precision) : '-'}, recall ${pct(grade.recall ?? 0)})</p>`
+    )
+  return parts.join('')
+}
+
+function renderRun(record: RunRecord, i: number, curriculum?: string): string {
+  const ideal = findSampledRun(runs, record.uuid, record.sample, curriculum)?.private.idealMavkaCode
+  const parts: string[] = []
+  if (record.error !== undefined) parts.push(`<p class="error-text">${escapeHtml(record.error)}</p>`)
+  parts.push(section('Prompt', pre(record.prompt)))
+  if (record.response !== undefined) parts.push(section('Agent response', pre(record.response)))
+  if (record.reasoning) parts.push(section('Reasoning', pre(record.reasoning)))
+  if (record.references?.length || record.referenceGrade?.expected)
+    parts.push(section('References', renderReferences(record)))
+  if (record.code !== undefined) {
+    const extraction = record.extraction
+      ? `<p>Extracted by <b>${record.extraction.strategy}</b> from ${record.extraction.candidates} candidates${record.extraction.ambiguous ? ' (ambiguous)' : ''}${record.extraction.reasoningStripped ? ', reasoning stripped' : ''}</p>`
+      : ''
+    parts.push(section('Extracted code', `${extraction}<pre class="code">${highlightMavka(record.code)}</pre>`))
+    parts.push(
+      section(
+        'Diff against idealMavkaCode',
+        ideal === undefined
+          ? '<p>Run not found in 2_runs.json.</p>'
+          : `<p>- ideal, + agent</p>${renderDiff(lineDiff(ideal, record.code))}`
+      )
+    )
+  }
+  if (record.diagnostics?.length)
+    parts.push(
+      section(
+        'Static analysis',
+        `<ul>${record.diagnostics.map((d) => `<li>${escapeHtml(formatDiagnostic(d))}</li>`).join('')}</ul>`
+      )
+    )
+  parts.push(section('Tests', renderTests(record.testResults)))
+  if (record.repair) {
+    const rounds = record.repair.rounds.map(
+      (round, n) =>
+        `<details><summary>Round ${n + 1}: ${pct(round.score)} (${round.ms}ms)</summary>${section('Prompt', pre(round.prompt))}${section('Code', `<pre class="code">${highlightMavka(round.code)}</pre>`)}${section('Tests', renderTests(round.testResults))}</details>`
+    )
+    const solved = record.repair.solvedRound ? `solved in round ${record.repair.solvedRound}` : 'not solved'
+    parts.push(
+      section(
+        'Repair',
+        `<p>${solved}${record.repair.error ? `, error: ${escapeHtml(record.repair.error)}` : ''}</p>${rounds.join('')}`
+      )
+    )
+  }
+  if (record.feedback) {
+    const { feedback } = record
+    const meta = [
+      feedback.provider,
+      feedback.cache && `cache ${feedback.cache}`,
+      feedback.ms !== undefined && `${feedback.ms}ms`
+    ]
+      .filter(Boolean)
+      .join(', ')
+    parts.push(
+      section(
+        'Feedback',
+        `<p>${escapeHtml(meta)}</p>${feedback.error ? `<p class="error-text">${escapeHtml(feedback.error)}</p>` : ''}${feedback.message ? pre(feedback.message) : ''}${feedback.response ? `<h4>Agent reply</h4>${pre(feedback.response)}` : ''}`
+      )
+    )
+  }
+  const score = record.error !== undefined ? 'error' : pct(record.score ?? 0)
+  return `<details class="run" id="run-${i}"><summary>${escapeHtml(`${runLabel(record)} -- ${record.algorithm.name} -- ${score}`)}</summary>${parts.join('')}</details>`
+}
+
+const style = `
+body { font-family: system-ui, sans-serif; margin: 2em; color: #222; }
+table { border-collapse: collapse; margin: 0.5em 1em 1em 0; font-size: 14px; }
+th, td { border: 1px solid #ddd; padding: 4px 8px; text-align: left; vertical-align: top; }
+th[data-sort] { cursor: pointer; background: #f3f3f3; }
+tr.solved td { background: #eefbee; }
+tr.error td { background: #fdeeee; }
+.tables { display: flex; flex-wrap: wrap; align-items: flex-start; }
+dl.summary { display: grid; grid-template-columns: max-content auto; gap: 4px 16px; }
+dt { font-weight: bold; }
+dd { margin: 0; }
+pre { background: #f7f7f7; padding: 8px; overflow-x: auto; white-space: pre-wrap; margin: 0; }
+td pre { padding: 0; background: none; }
+details.run { border: 1px solid #ddd; margin: 4px 0; padding: 4px 8px; }
+details.run[open] { background: #fcfcfc; }
+summary { cursor: pointer; }
+.error-text { color: #b00; }
+.code .k { color: #8959a8; font-weight: bold; }
+.code .s { color: #718c00; }
+.code .n { color: #f5871f; }
+.code .c { color: #8e908c; font-style: italic; }
+.diff .add { background: #e6ffed; display: block; }
+.diff .del { background: #ffeef0; display: block; }
+`
+
+// Сортування таблиць за кліком на заголовок та відкриття запуску за посиланням `#run-N`
+const script = `
+document.querySelectorAll('table.sortable th[data-sort]').forEach((th) => th.addEventListener('click', () => {
+  const body = th.closest('table').tBodies[0]
+  const column = th.cellIndex
+  const numeric = th.dataset.sort === 'num'
+  const desc = th.dataset.order !== 'desc'
+  th.dataset.order = desc ? 'desc' : 'asc'
+  const value = (row) => row.cells[column].dataset.value ?? row.cells[column].textContent
+  const rows = [...body.rows].sort((a, b) => numeric ? value(a) - value(b) : value(a).localeCompare(value(b), 'uk'))
+  if (desc) rows.reverse()
+  body.append(...rows)
+}))
+const openRun = () => {
+  const run = location.hash && document.getElementById(location.hash.slice(1))
+  if (run && run.tagName === 'DETAILS') run.open = true
+}
+addEventListener('hashchange', openRun)
+openRun()
+`
+
+export function toHtmlReport(results: EvalResults): string {
+  return `<!DOCTYPE html>
+<html lang="uk">
+<head>
+<meta charset="utf-8">
+<title>Eval ${escapeHtml(results.evalId)}</title>
+<style>${style}</style>
+</head>
+<body>
+<h1>Eval ${escapeHtml(results.evalId)}</h1>
+${renderSummary(results)}
+<h2>Scores</h2>
+${renderBreakdown(results.breakdown)}
+<h2>Runs</h2>
+${renderRunsTable(results.runs)}
+<h2>Run details</h2>
+${results.runs.map((record, i) => renderRun(record, i, results.curriculum)).join('\n')}
+<script>${script}</script>
+</body>
+</html>
+`
+}
@@ -0,0 +1,57 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import runs from '../../2_runs.json'
+import { startMockAgent } from './mock_agent'
+
+const [first, second] = runs as [(typeof runs)[0], (typeof runs)[0]]
+
+const server = startMockAgent({
+  port: 0,
+  behaviour: 'ideal',
+  script: { [second.uuid]: 'error', [String(runs[2]?.algorithm.number)]: 'malformed' },
+  delayMs: 10
+})
+afterAll(() => server.stop(true))
+
+const send = (uid: string, text = 'Завдання') =>
+  fetch(`${server.url}text`, { method: 'POST', body: JSON.stringify({ text, uid }) })
+
+describe('startMockAgent', () => {
+  test('answers a run with its ideal code and expected references', async () => {
+    const body = await (await send(first.uuid)).json()
+    expect(body).toEqual({
+      response: `\`\`\`mavka\n${first.private.idealMavkaCode}\n\`\`\``,
+      references: first.private.expectedReferences
+    })
+  })
+
+  test('acknowledges messages outside of runs', async () => {
+    expect(await (await send('00000000-0000-4000-8000-000000000000')).json()).toEqual({ response: 'Зрозуміло.' })
+  })
+
+  test('follows the script by run uuid and algorithm number', async () => {
+    expect((await send(second.uuid)).status).toBe(500)
+    const malformed = await send(runs[2]?.uuid ?? '')
+    expect(malformed.status).toBe(200)
+    expect(await malformed.json().catch(() => 'invalid')).toBe('invalid')
+  })
+
+  test('rejects other methods and request bodies', async () => {
+    expect((await fetch(`${server.url}text`)).status).toBe(405)
+    expect((await fetch(`${server.url}text`, { method: 'POST', body: '{"uid": 1}' })).status).toBe(400)
+  })
+})
+
+test('a timeout behaviour delays the answer by delayMs', async () => {
+  const slow = startMockAgent({ port: 0, behaviour: 'timeout', delayMs: 50 })
+  try {
+    const start = performance.now()
+    const response = await fetch(`${slow.url}text`, {
+      method: 'POST',
+      body: JSON.stringify({ text: '', uid: first.uuid })
+    })
+    expect(response.status).toBe(200)
+    expect(performance.now() - start).toBeGreaterThanOrEqual(45)
+  } finally {
+    slow.stop(true)
+  }
+})
@@ -0,0 +1,101 @@
+import z from 'zod'
+import runs from '../../2_runs.json'
+import { type AgentProtocol, agentTimeoutMs } from '../conf'
+import { runExpectedReferences } from './references'
+
+export const mockBehaviours = ['ideal', 'echo', 'malformed', 'timeout', 'error'] as const
+export type MockBehaviour = (typeof mockBehaviours)[number]
+
+export interface MockAgentOptions {
+  port: number
+  // Поведінка за замовчуванням для всіх запусків
+  behaviour: MockBehaviour
+  // Поведінка для окремих запусків: ключ -- uuid запуску або номер алгоритму
+  script?: Record<string, MockBehaviour>
+  // Затримка для `timeout` (за замовчуванням трохи довше за `agentTimeoutMs`)
+  delayMs?: number
+  // Протокол агента, який імітує заглушка (`agentProtocol`), за замовчуванням `text`
+  protocol?: AgentProtocol
+}
+
+const requestBody = z.object({ text: z.string(), uid: z.string() })
+
+// Для `openai` uid сесії приходить у полі `user`, а повідомлення -- останнє в історії
+const chatRequestBody = z
+  .object({ messages: z.array(z.object({ role: z.string(), content: z.string() })).min(1), user: z.string() })
+  .transform((body) => ({ text: body.messages[body.messages.length - 1]?.content ?? '', uid: body.user }))
+
+// Відповідь агента у форматі протоколу; `sse` -- фрагментами по 16 символів, `openai` -- без `references`
+function reply(protocol: AgentProtocol, response: string, references?: string[]): Response {
+  switch (protocol) {
+    case 'text':
+      return Response.json({ response, ...(references && { references }) })
+    case 'openai':
+      return Response.json({
+        object: 'chat.completion',
+        choices: [{ index: 0, message: { role: 'assistant', content: response }, finish_reason: 'stop' }]
+      })
+    case 'sse': {
+      const deltas = response.match(/[\s\S]{1,16}/g) ?? []
+      const events = [
+        ...deltas.map((delta) => JSON.stringify({ delta })),
+        ...(references ? [JSON.stringify({ references })] : []),
+        '[DONE]'
+      ]
+      return new Response(events.map((data) => `data: ${data}\n\n`).join(''), {
+        headers: { 'Content-Type': 'text/event-stream' }
+      })
+    }
+  }
+}
+
+type Run = (typeof runs)[0]
+
+const codeBlock = (code: string) => `\`\`\`mavka\n${code}\n\`\`\``
+
+function behaviourFor(run: Run, options: MockAgentOptions): MockBehaviour {
+  return options.script?.[run.uuid] ?? options.script?.[String(run.algorithm.number)] ?? options.behaviour
+}
+
+// Локальна заглушка агента з контрактом `{text, uid} -> {response, references?, reasoning?}` (чи `openai`/`sse`).
+// Повідомлення з uid, що не належать жодному запуску (навчання, фідбек), отримують просте підтвердження.
+export function startMockAgent(options: MockAgentOptions) {
+  const runsByUid = new Map(runs.map((run) => [run.uuid, run]))
+  const protocol = options.protocol ?? 'text'
+
+  return Bun.serve({
+    port: options.port,
+    // Інакше Bun обірве з'єднання раніше, ніж спрацює `timeout`
+    idleTimeout: 0,
+    fetch: async (req) => {
+      if (req.method !== 'POST') return new Response('Method Not Allowed', { status: 405 })
+      const schema = protocol === 'openai' ? chatRequestBody : requestBody
+      const body = schema.safeParse(await req.json().catch(() => undefined))
+      if (!body.success)
+        return Response.json(
+          { error: protocol === 'openai' ? 'Expected {messages, user}' : 'Expected {text, uid}' },
+          { status: 400 }
+        )
+
+      const run = runsByUid.get(body.data.uid)
+      if (!run) return reply(protocol, 'Зрозуміло.')
+
+      switch (behaviourFor(run, options)) {
+        // Еталонний код з посиланнями на очікувані файли навчання
+        case 'ideal':
+          return reply(protocol, codeBlock(run.private.idealMavkaCode), runExpectedReferences(run))
+        case 'echo':
+          return reply(protocol, codeBlock(run.mavkaCodeToReview ?? body.data.text))
+        case 'malformed':
+          if (protocol === 'sse')
+            return new Response('data: {"delta": \n\n', { headers: { 'Content-Type': 'text/event-stream' } })
+          return new Response('{"response": ', { headers: { 'Content-Type': 'application/json' } })
+        case 'timeout':
+          await Bun.sleep(options.delayMs ?? agentTimeoutMs + 1000)
+          return reply(protocol, codeBlock(run.private.idealMavkaCode))
+        case 'error':
+          return new Response('Internal Server Error', { status: 500 })
+      }
+    }
+  })
+}
@@ -0,0 +1,80 @@
+import { describe, expect, test } from 'bun:test'
+import runs from '../../2_runs.json'
+import {
+  buildReferenceIndex,
+  gradeReferences,
+  gradeRunReferences,
+  type ReferenceIndex,
+  resolveReference
+} from './references'
+
+const algorithm = '1_learning/2_algorithms/018_Алгоритм_бабусиної_порції.md'
+const nuance = '1_learning/1_nuances/01_оператор_та.md'
+const other = '1_learning/2_algorithms/031_Алгоритм_курочка_по_зернятку.md'
+
+const index: ReferenceIndex = {
+  uids: new Map([
+    ['00000000-0000-4000-8000-000000000018', [algorithm]],
+    // Сесія профілю `merged`: одне повідомлення на папку
+    ['00000000-0000-4000-8000-00000000000a', [algorithm, other]]
+  ]),
+  files: [nuance, algorithm, other]
+}
+
+describe('resolveReference', () => {
+  test('resolves uids, paths and file names with or without .md', () => {
+    expect(resolveReference('00000000-0000-4000-8000-000000000018', index)).toEqual([algorithm])
+    expect(resolveReference('00000000-0000-4000-8000-00000000000A', index)).toEqual([algorithm, other])
+    expect(resolveReference(algorithm, index)).toEqual([algorithm])
+    expect(resolveReference(`./${algorithm}`, index)).toEqual([algorithm])
+    expect(resolveReference(`/home/agent/mavka/${algorithm}`, index)).toEqual([algorithm])
+    expect(resolveReference('018_Алгоритм_бабусиної_порції', index)).toEqual([algorithm])
+    expect(resolveReference(' 01_оператор_та.md ', index)).toEqual([nuance])
+  })
+
+  test('returns nothing for unknown references', () => {
+    expect(resolveReference('docs.md', index)).toEqual([])
+    expect(resolveReference('./', index)).toEqual([])
+  })
+})
+
+describe('gradeReferences', () => {
+  test('lists resolved files without repeats and unresolved references', () => {
+    const grade = gradeReferences([algorithm, '018_Алгоритм_бабусиної_порції', 'docs.md'], undefined, index)
+    expect(grade).toEqual({ files: [algorithm], unresolved: ['docs.md'] })
+  })
+
+  test('counts precision per reference and recall per expected file', () => {
+    const grade = gradeReferences([algorithm, nuance, 'docs.md', algorithm], [algorithm], index)
+    expect(grade.precision).toBeCloseTo(1 / 3)
+    expect(grade.recall).toBe(1)
+  })
+
+  test('counts a merged session uid as one reference', () => {
+    const grade = gradeReferences(['00000000-0000-4000-8000-00000000000a'], [algorithm, nuance], index)
+    expect(grade.files).toEqual([algorithm, other])
+    expect(grade.precision).toBe(1)
+    expect(grade.recall).toBe(0.5)
+  })
+
+  test('has no precision without references', () => {
+    expect(gradeReferences([], [algorithm], index)).toEqual({
+      files: [],
+      unresolved: [],
+      expected: [algorithm],
+      recall: 0
+    })
+  })
+})
+
+test('gradeRunReferences skips responses without references', () => {
+  const run = runs.find((r) => r.algorithm.number === 18) as (typeof runs)[0]
+  expect(gradeRunReferences(undefined, run, index)).toBeUndefined()
+  expect(gradeRunReferences([algorithm], run, index)).toMatchObject({ precision: 1, recall: 1 })
+})
+
+test('buildReferenceIndex covers every expected reference of 2_runs.json', () => {
+  const { files } = buildReferenceIndex()
+  for (const run of runs)
+    for (const file of run.private.expectedReferences) expect(files).toContain(file.normalize('NFC'))
+})
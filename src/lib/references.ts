@@ -0,0 +1,90 @@
+import { buildCurriculum, type CurriculumProfile } from './curriculum'
+
+// Оцінка посилань агента (`references`): кожне посилання зіставляється з файлами `1_learning` -- за uid сесії
+// навчання (з урахуванням профілю `--curriculum`), шляхом чи назвою файлу -- і порівнюється з
+// `private.expectedReferences` запуску
+
+export interface ReferenceGrade {
+  // Файли навчання, на які посилається агент (без повторів)
+  files: string[]
+  // Посилання, які не вдалося зіставити з жодним файлом
+  unresolved: string[]
+  // Лише якщо запуск має `expectedReferences`
+  expected?: string[]
+  // Частка посилань, що вказують хоча б на один очікуваний файл (uid сесії `merged` -- одне посилання на кілька
+  // файлів); нерозпізнані вважаються хибними. Немає, якщо агент не дав посилань
+  precision?: number
+  // Частка очікуваних файлів, на які агент послався
+  recall?: number
+}
+
+export interface ReferenceIndex {
+  // uid сесії навчання -> файли, надіслані в ній (кілька -- для профілю `merged`)
+  uids: Map<string, string[]>
+  files: string[]
+}
+
+// `private.expectedReferences` запуску (поле необовʼязкове): шляхи файлів навчання, на які має послатися агент
+export const runExpectedReferences = (run: { private: object }): string[] | undefined =>
+  'expectedReferences' in run.private ? (run.private.expectedReferences as string[]) : undefined
+
+// Усі файли `1_learning` (зокрема конфліктні алгоритми, яких немає в `learnings.json`) та uid навчання профілю
+export function buildReferenceIndex(curriculum?: CurriculumProfile): ReferenceIndex {
+  const uids = new Map(buildCurriculum(curriculum).map((item) => [item.uid, item.files]))
+  const files = [...new Bun.Glob('1_learning/**/*.md').scanSync('.')].map((file) => file.normalize('NFC')).sort()
+  return { uids, files }
+}
+
+const stripExtension = (path: string) => path.replace(/\.md$/i, '')
+
+// Файли, на які вказує посилання: uid, шлях (повний, відносний чи абсолютний) або назва файлу, з `.md` чи без
+export function resolveReference(reference: string, index: ReferenceIndex): string[] {
+  const ref = reference.trim().normalize('NFC')
+  const byUid = index.uids.get(ref.toLowerCase())
+  if (byUid) return byUid
+  const path = stripExtension(ref.replace(/^\.?\//, ''))
+  if (!path) return []
+  return index.files.filter((file) => {
+    const name = stripExtension(file)
+    return name === path || name.endsWith(`/${path}`) || path.endsWith(`/${name}`)
+  })
+}
+
+export function gradeReferences(
+  references: string[],
+  expected: string[] | undefined,
+  index: ReferenceIndex
+): ReferenceGrade {
+  const files = new Set<string>()
+  const unresolved: string[] = []
+  // Посилання без повторів -> файли, на які воно вказує
+  const resolved = new Map<string, string[]>()
+  for (const reference of references) {
+    const key = reference.trim().normalize('NFC')
+    if (resolved.has(key)) continue
+    const found = resolveReference(reference, index)
+    resolved.set(key, found)
+    if (!found.length) unresolved.push(reference)
+    for (const file of found) files.add(file)
+  }
+  const grade: ReferenceGrade = { files: [...files], unresolved }
+  if (!expected) return grade
+
+  const wanted = new Set(expected.map((file) => file.normalize('NFC')))
+  const hits = grade.files.filter((file) => wanted.has(file)).length
+  const relevant = [...resolved.values()].filter((found) => found.some((file) => wanted.has(file))).length
+  return {
+    ...grade,
+    expected,
+    ...(resolved.size > 0 && { precision: relevant / resolved.size }),
+    recall: wanted.size ? hits / wanted.size : 1
+  }
+}
+
+// Відповідь без поля `references` (напр. протокол `openai`) не оцінюється
+export const gradeRunReferences = (
+  references: string[] | undefined,
+  run: { private: object },
+  index: ReferenceIndex
+): ReferenceGrade | undefined =>
+  references === undefined ? undefined : gradeReferences(references, runExpectedReferences(run), index)
@@ -0,0 +1,162 @@
+import { describe, expect, test } from 'bun:test'
+import { computeBreakdown, formatBreakdown } from './report'
+import { type RepairRound, type RunRecord, runRecordBase } from './results'
+
+const uuid = (n: number) => `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`
+
+const record = (
+  index: number,
+  algorithm: number,
+  score: number | undefined,
+  overrides: Partial<RunRecord> = {}
+): RunRecord => ({
+  ...runRecordBase(
+    {
+      uuid: uuid(index),
+      algorithm: { number: algorithm, name: `Алгоритм ${algorithm}` },
+      type: 'implement',
+      isConflicted: algorithm > 100,
+      isAfterFeedback: false
+    },
+    index
+  ),
+  ...(score === undefined ? { error: 'Agent call failed' } : { score }),
+  ...overrides
+})
+
+describe('computeBreakdown', () => {
+  test('scores categories and algorithms without errored runs', () => {
+    const breakdown = computeBreakdown([
+      record(0, 18, 1),
+      record(1, 18, 0.5, { type: 'review' }),
+      record(2, 31, undefined),
+      record(3, 118, 0)
+    ])
+    expect(breakdown.categories.overall).toEqual({ score: 0.5, scored: 3, errors: 1 })
+    expect(breakdown.categories.implement).toEqual({ score: 0.5, scored: 2, errors: 1 })
+    expect(breakdown.categories.review).toEqual({ score: 0.5, scored: 1, errors: 0 })
+    expect(breakdown.categories.conflicted).toEqual({ score: 0, scored: 1, errors: 0 })
+    expect(breakdown.categories['after feedback']).toEqual({ score: 0, scored: 0, errors: 0 })
+    expect(Object.keys(breakdown.algorithms)).toEqual(['18', '31', '118'])
+    expect(breakdown.algorithms[18]).toEqual({ score: 0.75, scored: 2, errors: 0 })
+  })
+
+  test('averages the feedback uplift only over pairs that got feedback', () => {
+    const breakdown = computeBreakdown([
+      record(0, 18, 0.5, { uuidFeedback: uuid(1), feedback: { text: 'Підказка' } }),
+      record(1, 18, 1, { isAfterFeedback: true }),
+      record(2, 31, 0.5, { uuidFeedback: uuid(3), feedback: { error: 'HTTP 500' } }),
+      record(3, 31, 0, { isAfterFeedback: true })
+    ])
+    expect(breakdown.feedbackUplift.mean).toBe(0.5)
+    expect(breakdown.feedbackUplift.pairs.map((p) => [p.algorithm, p.delta, p.feedbackDelivered])).toEqual([
+      [18, 0.5, true],
+      [31, -0.5, false]
+    ])
+  })
+
+  test('pairs a conflicted run N + 100 with run N of the same type and stage', () => {
+    const breakdown = computeBreakdown([
+      record(0, 18, 1),
+      record(1, 118, 0.25, { uuidConflictingDocs: uuid(0) }),
+      record(2, 31, 1),
+      record(3, 131, undefined, { uuidConflictingDocs: uuid(2) }),
+      record(4, 18, 0.5, { isAfterFeedback: true }),
+      record(5, 118, 1, { isAfterFeedback: true })
+    ])
+    expect(breakdown.conflictDelta).toEqual({
+      mean: -0.125,
+      pairs: [
+        { algorithm: 118, first: 1, second: 0.25, delta: -0.75, type: 'implement', isAfterFeedback: false },
+        { algorithm: 118, first: 0.5, second: 1, delta: 0.5, type: 'implement', isAfterFeedback: true }
+      ]
+    })
+  })
+
+  test('does not pair a conflicted review with the implement run whose docs it conflicts with', () => {
+    const breakdown = computeBreakdown([
+      record(0, 19, 1),
+      record(1, 19, 0.5, { type: 'review' }),
+      record(2, 119, 0, { type: 'review', uuidConflictingDocs: uuid(0) }),
+      record(3, 34, 1),
+      record(4, 134, 0, { type: 'review', uuidConflictingDocs: uuid(3) })
+    ])
+    expect(breakdown.conflictDelta.pairs).toEqual([
+      { algorithm: 119, first: 0.5, second: 0, delta: -0.5, type: 'review', isAfterFeedback: false }
+    ])
+    expect(formatBreakdown(breakdown)).toContain('  119              50.00% -> 0.00% (-50.00%) review')
+  })
+})
+
+test('summarizes repair rounds as pass@1 vs pass@k', () => {
+  const round = { score: 0.5 } as RepairRound
+  const breakdown = computeBreakdown([
+    record(0, 18, 1),
+    record(1, 31, 0.5, { repair: { rounds: [round, round], solvedRound: 2 } }),
+    record(2, 32, 0, { repair: { rounds: [round] } }),
+    record(3, 33, 0.5)
+  ])
+  expect(breakdown.repair).toEqual({
+    passAt1: 0.25,
+    passAtK: 0.5,
+    k: 3,
+    runs: [
+      { index: 1, algorithm: 31, rounds: 2, solvedRound: 2 },
+      { index: 2, algorithm: 32, rounds: 1, solvedRound: undefined }
+    ]
+  })
+  const text = formatBreakdown(breakdown)
+  expect(text).toContain('Repair: pass@1 25.00% -> pass@3 50.00%')
+  expect(text).toContain('  2 [31]           solved in round 2')
+  expect(text).toContain('  3 [32]           not solved (1 rounds)')
+  expect(computeBreakdown([record(0, 18, 0.5)]).repair).toBeUndefined()
+})
+
+test('summarizes repeated samples per run and per algorithm', () => {
+  const breakdown = computeBreakdown([
+    record(0, 18, 1, { sample: 0 }),
+    record(1, 31, 1, { sample: 0 }),
+    record(0, 18, 0, { sample: 1 }),
+    record(1, 31, 1, { sample: 1 })
+  ])
+  const { sampling } = breakdown
+  expect(sampling?.samples).toBe(2)
+  expect(sampling?.passAt1).toBe(0.75)
+  expect(sampling?.passAtK).toBe(1)
+  expect(sampling?.categories.overall?.mean).toBe(0.75)
+  expect(sampling?.algorithms[18]?.mean).toBe(0.5)
+  expect(sampling?.algorithms[18]?.stddev).toBeCloseTo(Math.SQRT1_2)
+  expect(sampling?.algorithms[31]).toEqual({ mean: 1, stddev: 0, passAt1: 1, passAtK: 1 })
+  const text = formatBreakdown(breakdown)
+  expect(text).toContain('Sampling: 2 samples per run (95% bootstrap CI)')
+  expect(text).toContain('  pass@1 75.00%, pass@2 100.00%')
+  expect(computeBreakdown([record(0, 18, 1)]).sampling).toBeUndefined()
+})
+
+test('averages reference grades per category, precision only where references were given', () => {
+  const breakdown = computeBreakdown([
+    record(0, 18, 1, { referenceGrade: { files: [], unresolved: [], expected: ['a.md'], precision: 0.5, recall: 1 } }),
+    record(1, 31, 0, { referenceGrade: { files: [], unresolved: [], expected: ['b.md'], recall: 0 } }),
+    record(2, 32, 1)
+  ])
+  expect(breakdown.categories.overall?.references).toEqual({ precision: 0.5, recall: 0.5, graded: 2 })
+  expect(breakdown.algorithms[31]?.references).toEqual({ recall: 0, graded: 1 })
+  expect(breakdown.algorithms[32]?.references).toBeUndefined()
+  const text = formatBreakdown(breakdown)
+  expect(text).toContain('  overall            66.67% (3 runs)  refs precision 50.00%, recall 50.00% (2 graded)')
+  expect(text).toContain('  31                  0.00% (1 runs)  refs precision -, recall 0.00% (1 graded)')
+})
+
+test('formatBreakdown lists categories, algorithms and pairs', () => {
+  const text = formatBreakdown(
+    computeBreakdown([
+      record(0, 18, 0.5, { uuidFeedback: uuid(1), feedback: { text: 'Підказка' } }),
+      record(1, 18, 1, { isAfterFeedback: true }),
+      record(2, 31, undefined)
+    ])
+  )
+  expect(text).toContain('  overall            75.00% (2 runs, 1 errors)')
+  expect(text).toContain('Feedback uplift: +50.00% (1 pairs with feedback)')
+  expect(text).toContain('  18               50.00% -> 100.00% (+50.00%)')
+  expect(text).toContain('Conflicted vs non-conflicted: +0.00% (0 pairs)')
+})
@@ -0,0 +1,269 @@
+import type { RunRecord } from './results'
+import { bootstrapInterval, type Interval, mean, passAtK, stddev } from './stats'
+
+// Якість посилань агента (`referenceGrade`) у запусках з `expectedReferences`
+export interface ReferenceScore {
+  // Середнє лише за запусками, де агент дав хоч одне посилання
+  precision?: number
+  recall: number
+  graded: number
+}
+
+export interface CategoryScore {
+  score: number
+  scored: number
+  errors: number
+  // Лише якщо хоч один запуск категорії має оцінку посилань
+  references?: ReferenceScore
+}
+
+export interface PairDelta {
+  algorithm: number
+  first: number
+  second: number
+  delta: number
+}
+
+// Раунди виправлення: частка запусків, що пройшли всі тести з першої спроби (pass@1) та за k спроб (pass@k)
+export interface RepairSummary {
+  passAt1: number
+  passAtK: number
+  k: number
+  runs: Array<{ index: number; algorithm: number; rounds: number; solvedRound?: number }>
+}
+
+// Повторні запуски (`--samples k`): інтервали довіри та розкид балів між спробами
+export interface SamplingSummary {
+  samples: number
+  // 95% бутстреп-інтервали середнього балу; одиниця вибірки -- запуск з `2_runs.json` (бал усереднено за спробами)
+  categories: Record<string, Interval>
+  // Бал кожної спроби алгоритму -> середнє та стандартне відхилення між спробами
+  algorithms: Record<string, { mean: number; stddev: number; passAt1: number; passAtK: number }>
+  // Частка спроб, що пройшли всі тести, та ймовірність пройти всі тести хоч раз за k спроб
+  passAt1: number
+  passAtK: number
+}
+
+export interface ScoreBreakdown {
+  categories: Record<string, CategoryScore>
+  algorithms: Record<string, CategoryScore>
+  // Різниця між першим запуском та його `isAfterFeedback` двійником (лише там, де фідбек було доставлено)
+  feedbackUplift: { mean: number; pairs: Array<PairDelta & { feedbackDelivered: boolean }> }
+  // Різниця між конфліктним (N > 100) та звичайним (N - 100) варіантами одного алгоритму того ж типу й етапу
+  conflictDelta: { mean: number; pairs: Array<PairDelta & { type: string; isAfterFeedback: boolean }> }
+  // Лише якщо були раунди виправлення (`repairRounds`)
+  repair?: RepairSummary
+  // Лише якщо кожен запуск виконувався кілька разів
+  sampling?: SamplingSummary
+}
+
+const categories: Record<string, (r: RunRecord) => boolean> = {
+  implement: (r) => r.type === 'implement',
+  review: (r) => r.type === 'review',
+  conflicted: (r) => r.isConflicted,
+  'non-conflicted': (r) => !r.isConflicted,
+  'first run': (r) => !r.isAfterFeedback,
+  'after feedback': (r) => r.isAfterFeedback
+}
+
+function referenceScore(records: RunRecord[]): ReferenceScore | undefined {
+  const grades = records.flatMap((r) => (r.referenceGrade?.recall !== undefined ? [r.referenceGrade] : []))
+  if (!grades.length) return undefined
+  const precisions = grades.flatMap((g) => (g.precision !== undefined ? [g.precision] : []))
+  return {
+    ...(precisions.length > 0 && { precision: mean(precisions) }),
+    recall: mean(grades.map((g) => g.recall ?? 0)),
+    graded: grades.length
+  }
+}
+
+function categoryScore(records: RunRecord[]): CategoryScore {
+  const scored = records.filter((r) => r.score !== undefined)
+  const references = referenceScore(records)
+  return {
+    score: scored.length ? scored.reduce((sum, r) => sum + (r.score ?? 0), 0) / scored.length : 0,
+    scored: scored.length,
+    errors: records.length - scored.length,
+    ...(references && { references })
+  }
+}
+
+function groupBy<K>(records: RunRecord[], key: (r: RunRecord) => K): Map<K, RunRecord[]> {
+  const groups = new Map<K, RunRecord[]>()
+  for (const r of records) groups.set(key(r), [...(groups.get(key(r)) ?? []), r])
+  return groups
+}
+
+const scores = (records: RunRecord[]) => records.flatMap((r) => (r.score !== undefined ? [r.score] : []))
+
+// pass@1 та pass@k для спроб одного запуску (помилки вважаються непройденими спробами)
+function runPassRates(attempts: RunRecord[], k: number) {
+  const solved = attempts.filter((r) => r.score === 1).length
+  return { passAt1: solved / attempts.length, passAtK: passAtK(attempts.length, solved, k) }
+}
+
+function computeSampling(records: RunRecord[]): SamplingSummary | undefined {
+  const samples = 1 + Math.max(0, ...records.map((r) => r.sample ?? 0))
+  if (samples < 2) return undefined
+
+  const byRun = [...groupBy(records, (r) => r.index).values()]
+  const intervalOf = (groups: RunRecord[][]) =>
+    bootstrapInterval(groups.map(scores).flatMap((s) => (s.length ? [mean(s)] : [])))
+  const intervals: Record<string, Interval> = { overall: intervalOf(byRun) }
+  for (const [name, filter] of Object.entries(categories)) {
+    const groups = byRun.filter((group) => group[0] && filter(group[0]))
+    if (groups.length) intervals[name] = intervalOf(groups)
+  }
+
+  const algorithms: SamplingSummary['algorithms'] = {}
+  for (const [number, group] of [...groupBy(records, (r) => r.algorithm.number)].sort((a, b) => a[0] - b[0])) {
+    const perSample = [...groupBy(group, (r) => r.sample ?? 0).values()].map(scores).filter((s) => s.length)
+    const rates = [...groupBy(group, (r) => r.index).values()].map((attempts) => runPassRates(attempts, samples))
+    algorithms[number] = {
+      mean: mean(perSample.map(mean)),
+      stddev: stddev(perSample.map(mean)),
+      passAt1: mean(rates.map((r) => r.passAt1)),
+      passAtK: mean(rates.map((r) => r.passAtK))
+    }
+  }
+
+  const rates = byRun.map((attempts) => runPassRates(attempts, samples))
+  return {
+    samples,
+    categories: intervals,
+    algorithms,
+    passAt1: mean(rates.map((r) => r.passAt1)),
+    passAtK: mean(rates.map((r) => r.passAtK))
+  }
+}
+
+export function computeBreakdown(records: RunRecord[]): ScoreBreakdown {
+  const byCategory: Record<string, CategoryScore> = { overall: categoryScore(records) }
+  for (const [name, filter] of Object.entries(categories)) byCategory[name] = categoryScore(records.filter(filter))
+
+  const byAlgorithm: Record<string, CategoryScore> = {}
+  const numbers = [...new Set(records.map((r) => r.algorithm.number))].sort((a, b) => a - b)
+  for (const n of numbers) byAlgorithm[n] = categoryScore(records.filter((r) => r.algorithm.number === n))
+
+  const byUuid = new Map(records.map((r) => [r.uuid, r]))
+
+  const upliftPairs: ScoreBreakdown['feedbackUplift']['pairs'] = []
+  for (const first of records) {
+    if (first.isAfterFeedback || !first.uuidFeedback) continue
+    const second = byUuid.get(first.uuidFeedback)
+    if (first.score === undefined || second?.score === undefined) continue
+    upliftPairs.push({
+      algorithm: first.algorithm.number,
+      first: first.score,
+      second: second.score,
+      delta: second.score - first.score,
+      feedbackDelivered: !!first.feedback && !first.feedback.error
+    })
+  }
+
+  // Конфліктний запуск N > 100 порівнюється з запуском N того ж типу й етапу (перший запуск чи після фідбеку)
+  const pairKey = (r: RunRecord, number: number) => `${number}|${r.type}|${r.isAfterFeedback}|${r.sample ?? 0}`
+  const nonConflicted = new Map<string, RunRecord>()
+  for (const r of records)
+    if (!r.isConflicted && !nonConflicted.has(pairKey(r, r.algorithm.number)))
+      nonConflicted.set(pairKey(r, r.algorithm.number), r)
+
+  const conflictPairs: ScoreBreakdown['conflictDelta']['pairs'] = []
+  for (const conflicted of records) {
+    if (!conflicted.isConflicted || conflicted.algorithm.number <= 100) continue
+    const base = nonConflicted.get(pairKey(conflicted, conflicted.algorithm.number - 100))
+    if (conflicted.score === undefined || base?.score === undefined) continue
+    conflictPairs.push({
+      algorithm: conflicted.algorithm.number,
+      first: base.score,
+      second: conflicted.score,
+      delta: conflicted.score - base.score,
+      type: conflicted.type,
+      isAfterFeedback: conflicted.isAfterFeedback
+    })
+  }
+
+  const scored = records.filter((r) => r.score !== undefined)
+  const repaired = records.filter((r) => r.repair?.rounds.length)
+  const repair: RepairSummary | undefined = repaired.length
+    ? {
+        passAt1: scored.filter((r) => r.score === 1).length / scored.length,
+        passAtK: scored.filter((r) => r.score === 1 || r.repair?.solvedRound !== undefined).length / scored.length,
+        k: 1 + Math.max(...repaired.map((r) => r.repair?.rounds.length ?? 0)),
+        runs: repaired.map((r) => ({
+          index: r.index,
+          algorithm: r.algorithm.number,
+          rounds: r.repair?.rounds.length ?? 0,
+          solvedRound: r.repair?.solvedRound
+        }))
+      }
+    : undefined
+
+  return {
+    categories: byCategory,
+    algorithms: byAlgorithm,
+    feedbackUplift: {
+      mean: mean(upliftPairs.filter((p) => p.feedbackDelivered).map((p) => p.delta)),
+      pairs: upliftPairs
+    },
+    conflictDelta: { mean: mean(conflictPairs.map((p) => p.delta)), pairs: conflictPairs },
+    repair,
+    sampling: computeSampling(records)
+  }
+}
+
+const pct = (n: number) => `${(n * 100).toFixed(2)}%`
+const signedPct = (n: number) => `${n >= 0 ? '+' : ''}${pct(n)}`
+
+const formatReferenceScore = (r: ReferenceScore) =>
+  `refs precision ${r.precision !== undefined ? pct(r.precision) : '-'}, recall ${pct(r.recall)} (${r.graded} graded)`
+
+const formatCategory = (name: string, c: CategoryScore) =>
+  `  ${name.padEnd(16)} ${pct(c.score).padStart(8)} (${c.scored} runs${c.errors ? `, ${c.errors} errors` : ''})${c.references ? `  ${formatReferenceScore(c.references)}` : ''}`
+
+export function formatBreakdown(breakdown: ScoreBreakdown): string {
+  const lines = ['Score by category:']
+  for (const [name, c] of Object.entries(breakdown.categories)) lines.push(formatCategory(name, c))
+
+  lines.push('Score by algorithm:')
+  for (const [number, c] of Object.entries(breakdown.algorithms)) lines.push(formatCategory(number, c))
+
+  const delivered = breakdown.feedbackUplift.pairs.filter((p) => p.feedbackDelivered)
+  lines.push(`Feedback uplift: ${signedPct(breakdown.feedbackUplift.mean)} (${delivered.length} pairs with feedback)`)
+  for (const p of breakdown.feedbackUplift.pairs)
+    lines.push(
+      `  ${String(p.algorithm).padEnd(16)} ${pct(p.first)} -> ${pct(p.second)} (${signedPct(p.delta)})${p.feedbackDelivered ? '' : ' no feedback'}`
+    )
+
+  lines.push(
+    `Conflicted vs non-conflicted: ${signedPct(breakdown.conflictDelta.mean)} (${breakdown.conflictDelta.pairs.length} pairs)`
+  )
+  for (const p of breakdown.conflictDelta.pairs)
+    lines.push(
+      `  ${String(p.algorithm).padEnd(16)} ${pct(p.first)} -> ${pct(p.second)} (${signedPct(p.delta)}) ${p.type}${p.isAfterFeedback ? ' second run' : ''}`
+    )
+
+  const { repair } = breakdown
+  if (repair) {
+    lines.push(`Repair: pass@1 ${pct(repair.passAt1)} -> pass@${repair.k} ${pct(repair.passAtK)}`)
+    for (const r of repair.runs)
+      lines.push(
+        `  ${`${r.index + 1} [${r.algorithm}]`.padEnd(16)} ${r.solvedRound !== undefined ? `solved in round ${r.solvedRound}` : `not solved (${r.rounds} rounds)`}`
+      )
+  }
+
+  const { sampling } = breakdown
+  if (sampling) {
+    lines.push(`Sampling: ${sampling.samples} samples per run (95% bootstrap CI)`)
+    for (const [name, c] of Object.entries(sampling.categories))
+      lines.push(`  ${name.padEnd(16)} ${pct(c.mean).padStart(8)} [${pct(c.low)} - ${pct(c.high)}]`)
+    lines.push(`  pass@1 ${pct(sampling.passAt1)}, pass@${sampling.samples} ${pct(sampling.passAtK)}`)
+    lines.push('Score by algorithm across samples:')
+    for (const [number, a] of Object.entries(sampling.algorithms))
+      lines.push(
+        `  ${number.padEnd(16)} ${pct(a.mean).padStart(8)} ± ${pct(a.stddev)} (pass@1 ${pct(a.passAt1)}, pass@${sampling.samples} ${pct(a.passAtK)})`
+      )
+  }
+
+  return lines.join('\n')
+}
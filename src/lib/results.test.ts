@@ -0,0 +1,113 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { computeBreakdown } from './report'
+import {
+  type EvalResults,
+  type RunRecord,
+  readResults,
+  resultsVersion,
+  runLabel,
+  runRecordBase,
+  toJUnitXml
+} from './results'
+
+const record = (index: number, overrides: Partial<RunRecord> = {}): RunRecord => ({
+  ...runRecordBase(
+    {
+      uuid: `00000000-0000-4000-8000-${String(index).padStart(12, '0')}`,
+      algorithm: { number: 18, name: 'Алгоритм бабусиної порції' },
+      type: 'implement',
+      isConflicted: false,
+      isAfterFeedback: false
+    },
+    index
+  ),
+  ...overrides
+})
+
+const results = (runs: RunRecord[]): EvalResults => {
+  const breakdown = computeBreakdown(runs)
+  return {
+    version: resultsVersion,
+    evalId: 'eval-1',
+    mode: 'full',
+    startedAt: '',
+    finishedAt: '',
+    agentUrl: '',
+    score: breakdown.categories.overall?.score ?? 0,
+    breakdown,
+    timings: { learn: [], task: [] },
+    agentCalls: { calls: 0, attempts: 0, retries: 0, failedCalls: 0, circuitOpen: false },
+    learnings: [],
+    runs
+  }
+}
+
+test('runLabel numbers runs from 1 and marks conflicted and second runs', () => {
+  expect(runLabel(record(0))).toBe('1 [18] implement')
+  expect(runLabel(record(4, { type: 'review', isConflicted: true, isAfterFeedback: true }))).toBe(
+    '5 [18] review conflicted second run'
+  )
+})
+
+describe('toJUnitXml', () => {
+  const xml = toJUnitXml(
+    results([
+      record(0, {
+        score: 0.5,
+        testResults: [
+          { passed: true, outcome: 'passed', input: '1, 2', expected: '3', actual: '3', comparator: 'exact' },
+          { passed: false, outcome: 'failed', input: '"<a>"', expected: '&', actual: 'x\u0001y', comparator: 'exact' }
+        ]
+      }),
+      record(1, { error: 'Agent "timeout"' })
+    ])
+  )
+
+  test('counts test cases, failures and agent errors', () => {
+    expect(xml).toContain('<testsuites name="mavka-runner full eval-1" tests="3" failures="1" errors="1">')
+    expect(xml).toContain('tests="2" failures="1" errors="0"')
+    expect(xml).toContain('<error message="Agent &#34;timeout&#34;"/>')
+  })
+
+  test('escapes markup and drops characters invalid in XML', () => {
+    expect(xml).toContain('name="Test 2: &#34;&#60;a&#62;&#34;"')
+    expect(xml).toContain('Got: xy</failure>')
+    expect(xml).not.toContain('\u0001')
+  })
+})
+
+describe('readResults', () => {
+  let dir: string
+  const write = async (name: string, content: unknown) => {
+    const path = join(dir, name)
+    await Bun.write(path, JSON.stringify(content))
+    return path
+  }
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'runner-test-'))
+  })
+
+  afterAll(() => rm(dir, { recursive: true, force: true }))
+
+  test('reads results of the current version', async () => {
+    const saved = results([record(0, { score: 1 })])
+    expect(await readResults(await write('current.json', saved))).toEqual(saved)
+  })
+
+  test('rejects files of an older version', async () => {
+    const { breakdown, agentCalls, ...old } = results([record(0)])
+    const path = await write('old.json', { ...old, version: 1 })
+    await expect(readResults(path)).rejects.toThrow(`Results file ${path} has version 1, expected ${resultsVersion}`)
+  })
+
+  test('names the first missing field of an invalid file', async () => {
+    const saved = results([record(0, { score: 0 })])
+    const testResults = [{ passed: false, input: '1', expected: '1', actual: '2', comparator: 'exact' }]
+    const path = await write('invalid.json', { ...saved, runs: [{ ...saved.runs[0], testResults }] })
+    await expect(readResults(path)).rejects.toThrow(/^Invalid results file .* at runs\.0\.testResults\.0\.outcome$/)
+  })
+})
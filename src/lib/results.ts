@@ -0,0 +1,272 @@
+import { mkdirSync } from 'node:fs'
+import z from 'zod'
+import { resultsFolder } from '../conf'
+import type { Diagnostic } from './analyze_mavka'
+import type { AgentCallStats } from './call_agent'
+import type { CurriculumProfile } from './curriculum'
+import type { ExtractionInfo } from './extract_llm_code'
+import { toHtmlReport } from './html_report'
+import type { ReferenceGrade } from './references'
+import type { ScoreBreakdown } from './report'
+import type { TestResult } from './types'
+
+// Версія формату файлу результатів -- збільшуйте при несумісних змінах.
+// 2: обовʼязкові `outcome`/`comparator` тест-кейсів, `breakdown` та `agentCalls`
+export const resultsVersion = 2
+
+export interface LearningRecord {
+  file: string
+  uid: string
+  success: boolean
+  ms?: number
+  error?: string
+}
+
+export interface RunRecord {
+  index: number
+  uuid: string
+  uuidFeedback?: string
+  uuidConflictingDocs?: string
+  algorithm: { number: number; name: string }
+  type: string
+  isConflicted: boolean
+  isAfterFeedback: boolean
+  // Номер спроби (з 0), лише якщо кожен запуск виконувався кілька разів (`--samples`)
+  sample?: number
+  prompt: string
+  response?: string
+  references?: string[]
+  // Зіставлення `references` з файлами навчання та `expectedReferences` запуску
+  referenceGrade?: ReferenceGrade
+  reasoning?: string
+  code?: string
+  // Як `code` витягнуто з `response` (стратегія, неоднозначність)
+  extraction?: ExtractionInfo
+  // Статичний аналіз `code` перед тестуванням
+  diagnostics?: Diagnostic[]
+  testResults: TestResult[]
+  // Відсутній, якщо запуск завершився помилкою (такі запуски не враховуються в загальному балі)
+  score?: number
+  feedback?: {
+    provider?: string
+    // `hit` -- фідбек взято з кешу
+    cache?: 'hit' | 'miss' | 'off'
+    text?: string
+    message?: string
+    response?: string
+    ms?: number
+    error?: string
+  }
+  // Раунди виправлення (`repairRounds`): агент отримує провалені тести на тому ж uuid. `score` -- лише перша спроба
+  repair?: {
+    rounds: RepairRound[]
+    // Номер раунду, після якого пройдено всі тести
+    solvedRound?: number
+    error?: string
+  }
+  timings: {
+    conflictingLearnMs?: number
+    agentMs?: number
+    // Час до першого фрагменту відповіді агента (лише потокові протоколи)
+    agentTtftMs?: number
+    repairMs?: number
+    feedbackMs?: number
+    totalMs: number
+  }
+  error?: string
+}
+
+export interface RepairRound {
+  prompt: string
+  response: string
+  code: string
+  extraction: ExtractionInfo
+  diagnostics: Diagnostic[]
+  testResults: TestResult[]
+  score: number
+  ms: number
+}
+
+export interface EvalResults {
+  version: typeof resultsVersion
+  evalId: string
+  mode: 'full' | 'test'
+  // Профіль навчання (`--curriculum`), якщо не `full`
+  curriculum?: CurriculumProfile
+  startedAt: string
+  finishedAt: string
+  agentUrl: string
+  score: number
+  breakdown: ScoreBreakdown
+  timings: { learn: number[]; task: number[] }
+  // Виклики агента, включно з повторами (див. `agentRetry` у `src/conf.ts`)
+  agentCalls: AgentCallStats
+  // Причина дострокового переривання eval (наприклад, агент недоступний)
+  aborted?: string
+  // evalId, відповіді агента якого перераховано (`rescore`); виклики агента та час -- з оригінального eval
+  rescoredFrom?: string
+  learnings: LearningRecord[]
+  runs: RunRecord[]
+}
+
+export function runRecordBase(
+  run: {
+    uuid: string
+    uuidFeedback?: string
+    uuidConflictingDocs?: string
+    algorithm: { number: number; name: string }
+    type: string
+    isConflicted: boolean
+    isAfterFeedback: boolean
+  },
+  index: number
+): RunRecord {
+  return {
+    index,
+    uuid: run.uuid,
+    uuidFeedback: run.uuidFeedback,
+    uuidConflictingDocs: run.uuidConflictingDocs,
+    algorithm: { number: run.algorithm.number, name: run.algorithm.name },
+    type: run.type,
+    isConflicted: run.isConflicted,
+    isAfterFeedback: run.isAfterFeedback,
+    prompt: '',
+    testResults: [],
+    timings: { totalMs: 0 }
+  }
+}
+
+export function runLabel(record: RunRecord): string {
+  return `${record.index + 1} [${record.algorithm.number}] ${record.type}${record.isConflicted ? ' conflicted' : ''}${record.isAfterFeedback ? ' second run' : ''}${record.sample !== undefined ? ` #${record.sample + 1}` : ''}`
+}
+
+// Записує `<evalId>.json`, `<evalId>.junit.xml` та `<evalId>.html` у `resultsFolder`, повертає шляхи до файлів
+export async function writeResults(results: EvalResults): Promise<{ json: string; junit: string; html: string }> {
+  mkdirSync(resultsFolder, { recursive: true })
+  const json = `${resultsFolder}/${results.evalId}.json`
+  const junit = `${resultsFolder}/${results.evalId}.junit.xml`
+  await Bun.write(json, JSON.stringify(results, null, 2))
+  await Bun.write(junit, toJUnitXml(results))
+  return { json, junit, html: await writeHtmlReport(results) }
+}
+
+// Записує `<evalId>.html` у `resultsFolder` (також для старих результатів через `report --html`)
+export async function writeHtmlReport(results: EvalResults): Promise<string> {
+  mkdirSync(resultsFolder, { recursive: true })
+  const html = `${resultsFolder}/${results.evalId}.html`
+  await Bun.write(html, toHtmlReport(results))
+  return html
+}
+
+// biome-ignore lint/suspicious/noControlCharactersInRegex: control characters are invalid in XML 1.0
+const xmlInvalidChars = /[\x00-\x08\x0b\x0c\x0e-\x1f]/g
+
+const escapeXml = (s: string) => s.replace(xmlInvalidChars, '').replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`)
+
+const seconds = (ms?: number) => ((ms ?? 0) / 1000).toFixed(3)
+
+// Кожен запуск -- окремий testsuite, кожен тест-кейс -- testcase
+export function toJUnitXml(results: EvalResults): string {
+  const suites = results.runs.map((record) => {
+    const name = escapeXml(`${runLabel(record)} ${record.algorithm.name}`)
+    const classname = escapeXml(`algorithm_${record.algorithm.number}`)
+
+    if (record.error !== undefined) {
+      return `  <testsuite name="${name}" tests="1" failures="0" errors="1" time="${seconds(record.timings.totalMs)}">
+    <testcase classname="${classname}" name="agent" time="${seconds(record.timings.totalMs)}">
+      <error message="${escapeXml(record.error)}"/>
+    </testcase>
+  </testsuite>`
+    }
+
+    const failures = record.testResults.filter((t) => !t.passed).length
+    const cases = record.testResults.map((t, i) => {
+      const caseName = escapeXml(`Test ${i + 1}: ${t.input}`)
+      if (t.passed) return `    <testcase classname="${classname}" name="${caseName}"/>`
+      return `    <testcase classname="${classname}" name="${caseName}">
+      <failure type="${t.outcome}" message="${escapeXml(`Expected (${t.comparator}): ${t.expected}`)}">${escapeXml(`Input: ${t.input}\nExpected: ${t.expected}\nGot: ${t.actual}`)}</failure>
+    </testcase>`
+    })
+    return `  <testsuite name="${name}" tests="${record.testResults.length}" failures="${failures}" errors="0" time="${seconds(record.timings.totalMs)}">
+${cases.join('\n')}
+  </testsuite>`
+  })
+
+  const tests = results.runs.reduce((n, r) => n + (r.error !== undefined ? 1 : r.testResults.length), 0)
+  const failures = results.runs.reduce((n, r) => n + r.testResults.filter((t) => !t.passed).length, 0)
+  const errors = results.runs.filter((r) => r.error !== undefined).length
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="${escapeXml(`mavka-runner ${results.mode} ${results.evalId}`)}" tests="${tests}" failures="${failures}" errors="${errors}">
+${suites.join('\n')}
+</testsuites>
+`
+}
+
+// Лише поля, на які покладаються `report`, `rescore` та `compare`; решта лишається як є
+const testResultSchema = z.looseObject({
+  passed: z.boolean(),
+  outcome: z.enum(['passed', 'failed', 'crash', 'timeout', 'output-limit']),
+  input: z.string(),
+  expected: z.string(),
+  actual: z.string(),
+  comparator: z.string()
+})
+
+const categoryScoresSchema = z.record(
+  z.string(),
+  z.looseObject({ score: z.number(), scored: z.number(), errors: z.number() })
+)
+
+const resultsSchema = z.looseObject({
+  version: z.literal(resultsVersion),
+  evalId: z.string(),
+  mode: z.enum(['full', 'test']),
+  score: z.number(),
+  breakdown: z.looseObject({
+    categories: categoryScoresSchema,
+    algorithms: categoryScoresSchema,
+    feedbackUplift: z.looseObject({ mean: z.number(), pairs: z.array(z.unknown()) }),
+    conflictDelta: z.looseObject({ mean: z.number(), pairs: z.array(z.unknown()) })
+  }),
+  timings: z.object({ learn: z.array(z.number()), task: z.array(z.number()) }),
+  agentCalls: z.object({
+    calls: z.number(),
+    attempts: z.number(),
+    retries: z.number(),
+    failedCalls: z.number(),
+    circuitOpen: z.boolean()
+  }),
+  learnings: z.array(z.looseObject({ file: z.string(), uid: z.string(), success: z.boolean() })),
+  runs: z.array(
+    z.looseObject({
+      index: z.number().int().nonnegative(),
+      uuid: z.string(),
+      algorithm: z.object({ number: z.number(), name: z.string() }),
+      type: z.string(),
+      isConflicted: z.boolean(),
+      isAfterFeedback: z.boolean(),
+      prompt: z.string(),
+      testResults: z.array(testResultSchema),
+      timings: z.looseObject({ totalMs: z.number() })
+    })
+  )
+})
+
+// Завантажує результати за evalId (з `resultsFolder`) або за шляхом до файлу
+export async function readResults(ref: string): Promise<EvalResults> {
+  const path = ref.endsWith('.json') ? ref : `${resultsFolder}/${ref}.json`
+  const file = Bun.file(path)
+  if (!(await file.exists())) throw new Error(`Results file not found: ${path}`)
+  const raw = await file.json()
+  const version = raw?.version
+  if (version !== resultsVersion)
+    throw new Error(
+      `Results file ${path} has version ${version ?? '<none>'}, expected ${resultsVersion}; re-run the eval to read it with this runner`
+    )
+  const parsed = resultsSchema.safeParse(raw)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    throw new Error(`Invalid results file ${path}: ${issue?.message} at ${issue?.path.join('.') || '<root>'}`)
+  }
+  return raw as EvalResults
+}
@@ -0,0 +1,113 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { chmodSync } from 'node:fs'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { mavkaLimits } from '../conf'
+import type { TestResult } from './types'
+
+let dir: string
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'runner-test-'))
+})
+
+afterAll(() => rm(dir, { recursive: true, force: true }))
+
+// `mavkaPath` читається з env під час імпорту `conf`, тож код тестується в окремому процесі з фальшивою Мавкою
+async function testWithMavka(
+  mavka: string,
+  tests: string,
+  limits: Partial<typeof mavkaLimits> = {}
+): Promise<TestResult[]> {
+  const path = join(dir, `mavka_${Bun.hash(mavka)}`)
+  await Bun.write(path, `#!/bin/sh\n${mavka}\n`)
+  chmodSync(path, 0o755)
+  const script = `
+    import { mavkaLimits } from '${join(import.meta.dir, '../conf')}'
+    import { testMavkaCode } from '${join(import.meta.dir, 'run_mavka')}'
+    Object.assign(mavkaLimits, ${JSON.stringify(limits)})
+    console.log(JSON.stringify(await testMavkaCode('дія алгоритм(а)\\n  вернути а\\nкінець', ${JSON.stringify(tests)})))
+  `
+  const proc = Bun.spawn([process.execPath, '-e', script], {
+    env: { ...process.env, MAVKA_PATH: path },
+    stdout: 'pipe',
+    stderr: 'inherit'
+  })
+  const stdout = await new Response(proc.stdout).text()
+  expect(await proc.exited).toBe(0)
+  return JSON.parse(stdout)
+}
+
+describe('testMavkaCode', () => {
+  test('passes matching output and fails the rest', async () => {
+    const results = await testWithMavka('echo 3', '1, 2 -> 3\n2, 2 -> 4')
+    expect(results.map((r) => [r.outcome, r.passed, r.actual])).toEqual([
+      ['passed', true, '3'],
+      ['failed', false, '3']
+    ])
+  })
+
+  test('reports stderr or a non-zero exit code as a crash', async () => {
+    const [stderr, exit] = [await testWithMavka('echo boom >&2', '1 -> 1'), await testWithMavka('exit 3', '1 -> 1')]
+    expect(stderr[0]).toMatchObject({ outcome: 'crash', actual: 'ERROR: boom\n' })
+    expect(exit[0]).toMatchObject({ outcome: 'crash', actual: 'ERROR: exit code 3' })
+  })
+
+  test('stops a program that runs too long', async () => {
+    const [result] = await testWithMavka('sleep 10', '1 -> 1', { timeoutMs: 200 })
+    expect(result).toMatchObject({ outcome: 'timeout', actual: 'TIMEOUT: no result after 200ms' })
+    expect(result?.ms).toBeLessThan(5000)
+  })
+
+  test('stops a program that prints too much', async () => {
+    const [result] = await testWithMavka('yes', '1 -> 1', { maxOutputBytes: 1000 })
+    expect(result).toMatchObject({ outcome: 'output-limit', actual: 'OUTPUT LIMIT: more than 1000 bytes of output' })
+  })
+
+  test('limits memory with ulimit when memoryMb is set', async () => {
+    expect((await testWithMavka('ulimit -v', '1 -> 1'))[0]?.actual).not.toBe('65536')
+    expect((await testWithMavka('ulimit -v', '1 -> 65536', { memoryMb: 64 }))[0]?.outcome).toBe('passed')
+  })
+})
+
+describe('batched test cases', () => {
+  // Фальшива Мавка друкує маркери пакету з відповіддю `3` після кожного; `calls` рахує запуски
+  const batch = (onBatch: string) => `echo >> "$(dirname "$0")/calls"
+case "$1" in
+  *тести.м) ${onBatch} ;;
+  *) echo 3 ;;
+esac`
+  const markers = `grep -o '@@[^"]*@@' "$1" | while read -r m; do echo "$m"; [ "$m" = '@@кінець@@' ] || echo 3; done`
+  const calls = async () => (await Bun.file(join(dir, 'calls')).text()).split('\n').length - 1
+
+  test('runs every test case in one process', async () => {
+    await Bun.write(join(dir, 'calls'), '')
+    const results = await testWithMavka(batch(markers), '1, 2 -> 3\n2, 2 -> 4\n0, 3 -> 3')
+    expect(results.map((r) => r.outcome)).toEqual(['passed', 'failed', 'passed'])
+    expect(await calls()).toBe(1)
+  })
+
+  test('keeps output printed before the first case in every case', async () => {
+    const results = await testWithMavka(batch(`echo зайве; ${markers}`), '1, 2 -> 3\n0, 3 -> 3')
+    expect(results.map((r) => r.actual)).toEqual(['зайве\n3', 'зайве\n3'])
+  })
+
+  test('falls back to a process per case when the batch crashes', async () => {
+    await Bun.write(join(dir, 'calls'), '')
+    const results = await testWithMavka(batch('exit 1'), '1, 2 -> 3\n2, 2 -> 4')
+    expect(results.map((r) => r.outcome)).toEqual(['passed', 'failed'])
+    expect(await calls()).toBe(3)
+  })
+
+  test('stops a slow batch after one case timeout plus batchCaseMs per extra case', async () => {
+    await Bun.write(join(dir, 'calls'), '')
+    // Пакет із 3 кейсів встиг би за 3 x `timeoutMs`, але не за `timeoutMs` + 2 x `batchCaseMs`
+    const results = await testWithMavka(batch(`sleep 0.6; ${markers}`), '1, 2 -> 3\n2, 2 -> 4\n0, 3 -> 3', {
+      timeoutMs: 300,
+      batchCaseMs: 0
+    })
+    expect(results.map((r) => r.outcome)).toEqual(['passed', 'failed', 'passed'])
+    expect(await calls()).toBe(4)
+  })
+})
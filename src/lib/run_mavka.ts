@@ -1,136 +1,173 @@
-import { mavkaPath, tmpFolder } from '../conf'
-import type { TestCase, TestResult } from './types'
-
-export async function testMavkaCode(code: string, testsPlain: string): Promise<TestResult[]> {
-  const results: TestResult[] = []
+import { mkdtemp, rm } from 'node:fs/promises'
+import { join } from 'node:path'
+import { mavkaBatched, mavkaLimits, mavkaPath, tmpFolder } from '../conf'
+import { createComparator } from './comparators'
+import { formatMavkaArgs, parseTestCases } from './test_cases'
+import type { TestCase, TestOutcome, TestResult } from './types'
+
+interface MavkaRun {
+  stdout: string
+  stderr: string
+  exitCode: number | null
+  // Процес було примусово зупинено runner-ом
+  killed?: 'timeout' | 'output-limit'
+  ms: number
+}
 
-  const testCases = await parseTestsPlain(testsPlain)
-
-  for (const testCase of testCases) {
-    const argsStr = formatMavkaArgs(testCase.args)
-    const script = `${code}\nдрук(алгоритм(${argsStr}))`
-
-    // Write to temp file and execute (use Ukrainian path to avoid Mavka issues)
-    const randomPart = Math.floor(Math.random() * 1000000)
-    const tempFile = `${tmpFolder}/тест_${Date.now()}_${randomPart}.м`
-    await Bun.write(tempFile, script)
-
-    try {
-      const proc = Bun.spawn([mavkaPath, tempFile], {
-        stdout: 'pipe',
-        stderr: 'pipe'
-      })
-
-      const stdout = await new Response(proc.stdout).text()
-      const stderr = await new Response(proc.stderr).text()
-      await proc.exited
-
-      // Strip ANSI color codes from Mavka output
-      // biome-ignore lint/suspicious/noControlCharactersInRegex: ANSI escape codes are intentional
-      const actual = stdout.trim().replace(/\x1b\[[0-9;]*m/g, '')
-
-      results.push({
-        passed: actual === testCase.expected,
-        input: testCase.input,
-        expected: testCase.expected,
-        actual: stderr ? `ERROR: ${stderr}` : actual
-      })
-    } finally {
-      // Clean up temp file
-      try {
-        require('node:fs').unlinkSync(tempFile)
-      } catch {
-        // Ignore cleanup errors
-      }
+// Читає потік, доки не перевищено `limit` байт; при перевищенні викликає `onExceeded`.
+// `signal` припиняє читання (нащадки процесу можуть тримати pipe відкритим і після kill)
+async function readCapped(
+  stream: ReadableStream<Uint8Array>,
+  limit: number,
+  onExceeded: () => void,
+  signal: AbortSignal
+): Promise<{ text: string; exceeded: boolean }> {
+  const decoder = new TextDecoder()
+  const reader = stream.getReader()
+  signal.addEventListener('abort', () => reader.cancel().catch(() => {}), { once: true })
+  let text = ''
+  let size = 0
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) return { text: text + decoder.decode(), exceeded: false }
+    size += value.byteLength
+    if (size > limit) {
+      onExceeded()
+      await reader.cancel()
+      return { text: text + decoder.decode(value.subarray(0, value.byteLength - (size - limit))), exceeded: true }
     }
+    text += decoder.decode(value, { stream: true })
   }
-
-  return results
 }
 
-function formatMavkaArgs(args: unknown[]): string {
-  return args
-    .map((arg) => {
-      if (Array.isArray(arg)) {
-        return `[${arg.join(', ')}]`
-      }
-      if (typeof arg === 'string') {
-        return `"${arg}"`
-      }
-      return String(arg)
-    })
-    .join(', ')
+// `name` -- файл у `workDir`: Мавка отримує відносний шлях, тож випадкова тимчасова папка не потрапляє
+// в повідомлення про помилки (а з ними -- в ключ кешу фідбеку).
+// `cases` -- скільки тест-кейсів виконує програма: ліміт виводу множиться на їх кількість, а час лише трохи
+// збільшується, щоби нескінченний цикл не тримав весь пакет N x `timeoutMs` перед окремими запусками
+async function runMavka(name: string, workDir: string, cases = 1): Promise<MavkaRun> {
+  const start = performance.now()
+  // Обмеження памʼяті через `ulimit -v` (лише якщо задано в `mavkaLimits`)
+  const cmd = mavkaLimits.memoryMb
+    ? ['sh', '-c', `ulimit -v ${mavkaLimits.memoryMb * 1024} && exec "$0" "$@"`, mavkaPath, name]
+    : [mavkaPath, name]
+  const proc = Bun.spawn(cmd, { cwd: workDir, stdout: 'pipe', stderr: 'pipe' })
+
+  let killed: MavkaRun['killed']
+  const controller = new AbortController()
+  const kill = (reason: NonNullable<MavkaRun['killed']>) => {
+    killed ??= reason
+    proc.kill('SIGKILL')
+    controller.abort()
+  }
+  const timeoutId = setTimeout(() => kill('timeout'), mavkaLimits.timeoutMs + mavkaLimits.batchCaseMs * (cases - 1))
+
+  try {
+    const [stdout, stderr] = await Promise.all([
+      readCapped(proc.stdout, mavkaLimits.maxOutputBytes * cases, () => kill('output-limit'), controller.signal),
+      readCapped(proc.stderr, mavkaLimits.maxOutputBytes * cases, () => kill('output-limit'), controller.signal)
+    ])
+    const exitCode = await proc.exited
+    // Абсолютний шлях може зʼявитися й у виводі самої програми чи рантайму
+    const stderrText = stderr.text.replaceAll(`${workDir}/`, '')
+    return { stdout: stdout.text, stderr: stderrText, exitCode, killed, ms: Math.round(performance.now() - start) }
+  } finally {
+    clearTimeout(timeoutId)
+  }
 }
 
-// Parse test file content into test cases
-async function parseTestsPlain(testContent: string): Promise<TestCase[]> {
-  const lines = testContent.trim().split('\n')
-  const testCases: TestCase[] = []
-
-  for (const line of lines) {
-    if (!line.trim() || line.startsWith('#')) continue
+// Strip ANSI color codes from Mavka output
+// biome-ignore lint/suspicious/noControlCharactersInRegex: ANSI escape codes are intentional
+const stripAnsi = (s: string) => s.replace(/\x1b\[[0-9;]*m/g, '')
+
+function toTestResult(testCase: TestCase, run: MavkaRun): TestResult {
+  const actual = stripAnsi(run.stdout).trim()
+  const comparator = createComparator(testCase.comparator)
+  const base = { input: testCase.input, expected: testCase.expected, comparator: comparator.name, ms: run.ms }
+
+  // Правильний результат зараховується навіть за наявності stderr (як і раніше)
+  if (!run.killed && comparator.matches(actual, testCase.expected))
+    return { ...base, passed: true, outcome: 'passed', actual }
+  if (run.killed === 'timeout')
+    return { ...base, passed: false, outcome: 'timeout', actual: `TIMEOUT: no result after ${mavkaLimits.timeoutMs}ms` }
+  if (run.killed === 'output-limit')
+    return {
+      ...base,
+      passed: false,
+      outcome: 'output-limit',
+      actual: `OUTPUT LIMIT: more than ${mavkaLimits.maxOutputBytes} bytes of output`
+    }
+  if (run.stderr || run.exitCode !== 0)
+    return { ...base, passed: false, outcome: 'crash', actual: `ERROR: ${run.stderr || `exit code ${run.exitCode}`}` }
 
-    const match = line.match(/^(.+?)\s*->\s*(.+)$/)
-    if (!match?.[1] || !match[2]) continue
+  return { ...base, passed: false, outcome: 'failed', actual }
+}
 
-    const inputStr = match[1].trim()
-    const expected = match[2].trim()
-    const args = parseInput(inputStr)
+const batchMarker = (i: number) => `@@тест_${i}@@`
+const batchEndMarker = '@@кінець@@'
+
+// Усі тест-кейси в одному процесі: вивід кожного виклику `алгоритм` відокремлено маркерами.
+// Повертає `undefined`, якщо програма впала чи не дійшла до кінця -- тоді кейси запускаються окремо
+async function runBatched(code: string, testCases: TestCase[], workDir: string): Promise<TestResult[] | undefined> {
+  const calls = testCases.map(
+    (testCase, i) => `друк("${batchMarker(i + 1)}")\nдрук(алгоритм(${formatMavkaArgs(testCase.args)}))`
+  )
+  const name = 'тести.м'
+  await Bun.write(join(workDir, name), `${code}\n${calls.join('\n')}\nдрук("${batchEndMarker}")`)
+
+  const run = await runMavka(name, workDir, testCases.length)
+  const stdout = stripAnsi(run.stdout)
+  if (run.killed || run.stderr || run.exitCode !== 0 || !stdout.includes(batchEndMarker)) return undefined
+
+  // Вивід до першого маркера (як-от зайвий `друк` у коді агента) потрапив би в кожен окремий запуск
+  const [prefix = '', ...segments] = stdout.slice(0, stdout.lastIndexOf(batchEndMarker)).split(/@@тест_\d+@@\n?/)
+  if (segments.length !== testCases.length) return undefined
+
+  return testCases.map((testCase, i) =>
+    toTestResult(testCase, {
+      stdout: prefix + (segments[i] ?? ''),
+      stderr: '',
+      exitCode: 0,
+      ms: Math.round(run.ms / testCases.length)
+    })
+  )
+}
 
-    testCases.push({ input: inputStr, expected, args })
-  }
+export async function testMavkaCode(
+  code: string,
+  tests: string | unknown[],
+  comparator?: unknown
+): Promise<TestResult[]> {
+  const results: TestResult[] = []
 
-  return testCases
-}
+  const testCases = parseTestCases(tests, comparator)
 
-// Parse input string to appropriate type(s)
-function parseInput(input: string): unknown[] {
-  // Array: [1, 2, 3] or [1.5, 2.5]
-  if (input.startsWith('[') && input.endsWith(']')) {
-    const inner = input.slice(1, -1).trim()
-    if (!inner) return [[]]
-    const arr = inner.split(',').map((s) => {
-      const n = parseFloat(s.trim())
-      return Number.isNaN(n) ? s.trim() : n
-    })
-    return [arr]
-  }
+  // Окрема тимчасова папка на кожен запуск (use Ukrainian path to avoid Mavka issues)
+  const workDir = await mkdtemp(join(tmpFolder, 'мавка_'))
+  try {
+    const batched = mavkaBatched && testCases.length > 1 ? await runBatched(code, testCases, workDir) : undefined
+    if (batched) return batched
 
-  // Mixed: "value, [array]" or "[array], value"
-  const mixedMatch = input.match(/^(.+?),\s*(\[.+\])$/) || input.match(/^(\[.+\]),\s*(.+)$/)
-  if (mixedMatch?.[1] && mixedMatch[2]) {
-    const parts = [mixedMatch[1].trim(), mixedMatch[2].trim()]
-    return parts.map((p) => {
-      if (p.startsWith('[') && p.endsWith(']')) {
-        const inner = p.slice(1, -1).trim()
-        if (!inner) return []
-        return inner.split(',').map((s) => {
-          const n = parseFloat(s.trim())
-          return Number.isNaN(n) ? s.trim() : n
-        })
-      }
-      const n = parseFloat(p)
-      return Number.isNaN(n) ? p : n
-    })
-  }
+    for (const [i, testCase] of testCases.entries()) {
+      const argsStr = formatMavkaArgs(testCase.args)
+      const script = `${code}\nдрук(алгоритм(${argsStr}))`
 
-  // Two params: "5, 10" or "200, 5"
-  if (input.includes(',')) {
-    return input.split(',').map((s) => {
-      const n = parseFloat(s.trim())
-      return Number.isNaN(n) ? s.trim() : n
-    })
+      const name = `тест_${i + 1}.м`
+      await Bun.write(join(workDir, name), script)
+      results.push(toTestResult(testCase, await runMavka(name, workDir)))
+    }
+  } finally {
+    await rm(workDir, { recursive: true, force: true })
   }
 
-  // Single number (int or float)
-  const n = parseFloat(input)
-  return [Number.isNaN(n) ? input : n]
+  return results
 }
 
-// Format result for comparison
-export function formatResult(result: unknown): string {
-  if (Array.isArray(result)) {
-    return `[${result.join(',')}]`
-  }
-  return String(result)
+const outcomeLabels: Record<TestOutcome, string> = {
+  passed: '✅ PASS',
+  failed: '❌ FAIL',
+  crash: '💥 CRASH',
+  timeout: '⏱️ TIMEOUT',
+  'output-limit': '📜 OUTPUT LIMIT'
 }
+
+export const formatOutcome = (result: TestResult) => outcomeLabels[result.outcome]
@@ -0,0 +1,47 @@
+import { expect, test } from 'bun:test'
+import runs from '../../2_runs.json'
+import { curriculumUid, findSampledRun, sampleRuns, sampleUid, withSampleUids } from './sampling'
+
+const uid = '00000000-0000-4000-8000-000000000018'
+
+test('sampleUid keeps the first sample and derives stable version 5 uids for the rest', () => {
+  expect(sampleUid(uid, 0)).toBe(uid)
+  expect(sampleUid(uid, 1)).toBe(sampleUid(uid, 1))
+  expect(sampleUid(uid, 1)).not.toBe(sampleUid(uid, 2))
+  expect(sampleUid(uid, 1)).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/)
+})
+
+test('curriculumUid derives separate sessions for each profile', () => {
+  expect(curriculumUid(uid)).toBe(uid)
+  expect(curriculumUid(uid, 'docs')).not.toBe(curriculumUid(uid, 'merged'))
+  expect(curriculumUid(uid, 'docs')).not.toBe(sampleUid(uid, 1))
+})
+
+test('withSampleUids replaces every session uid of a run', () => {
+  const run = runs.find((r) => r.uuidFeedback && r.uuidConflictingDocs) as (typeof runs)[0]
+  const sampled = withSampleUids(run, 1)
+  expect(sampled.uuid).toBe(sampleUid(run.uuid, 1))
+  expect(sampled.uuidFeedback).toBe(sampleUid(run.uuidFeedback as string, 1))
+  expect(sampled.uuidConflictingDocs).toBe(sampleUid(run.uuidConflictingDocs as string, 1))
+  expect(sampled.algorithm).toEqual(run.algorithm)
+  expect(withSampleUids(run, 0)).toBe(run)
+})
+
+test('sampleRuns runs every run of a sample before the next sample', () => {
+  const selected = runs.slice(0, 2)
+  const [a, b] = selected.map((r) => r.uuid)
+  expect(sampleRuns(selected, 2).map(({ original, sample }) => `${original.uuid} #${sample}`)).toEqual([
+    `${a} #0`,
+    `${b} #0`,
+    `${a} #1`,
+    `${b} #1`
+  ])
+})
+
+test('findSampledRun finds the run of a sampled record', () => {
+  const [run] = runs as [(typeof runs)[0]]
+  expect(findSampledRun(runs, run.uuid)).toBe(run)
+  expect(findSampledRun(runs, sampleUid(run.uuid, 2), 2)).toBe(run)
+  expect(findSampledRun(runs, sampleUid(run.uuid, 2), 1)).toBeUndefined()
+  expect(findSampledRun(runs, curriculumUid(sampleUid(run.uuid, 1), 'docs'), 1, 'docs')).toBe(run)
+})
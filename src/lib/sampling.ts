@@ -0,0 +1,48 @@
+import type runs from '../../2_runs.json'
+
+type Run = (typeof runs)[0]
+
+// Повторні запуски (`--samples k`): кожна спроба, окрім першої, отримує нові сесії агента з uid, похідними
+// від оригінальних. Похідні uid детерміновані, тож перерваний eval можна продовжити, а два eval -- порівняти.
+// Так само окремі сесії отримує кожен профіль навчання (`--curriculum`, див. `src/lib/curriculum.ts`)
+
+// UUID (формат версії 5) з sha256 від оригінального uid та `salt`
+function derivedUid(uid: string, salt: string): string {
+  const hex = new Bun.CryptoHasher('sha256').update(`${uid}${salt}`).digest('hex')
+  const variant = ((Number.parseInt(hex[16] ?? '0', 16) & 0x3) | 0x8).toString(16)
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`
+}
+
+// Спроба 0 -- оригінальний uid
+export const sampleUid = (uid: string, sample: number): string => (sample === 0 ? uid : derivedUid(uid, `#${sample}`))
+
+// Без профілю (звичайне навчання) -- оригінальний uid
+export const curriculumUid = (uid: string, curriculum?: string): string =>
+  curriculum === undefined ? uid : derivedUid(uid, `@${curriculum}`)
+
+// Копія запуску з похідними uid усіх його сесій (запуск, фідбек, конфліктна документація)
+export function withDerivedUids(run: Run, derive: (uid: string) => string): Run {
+  // Замінюються лише наявні uid, тож форма запуску (варіант обʼєднання типів з JSON) не змінюється
+  return {
+    ...run,
+    uuid: derive(run.uuid),
+    ...(run.uuidFeedback && { uuidFeedback: derive(run.uuidFeedback) }),
+    ...(run.uuidConflictingDocs && { uuidConflictingDocs: derive(run.uuidConflictingDocs) })
+  } as Run
+}
+
+export function withSampleUids(run: Run, sample: number): Run {
+  return sample === 0 ? run : withDerivedUids(run, (uid) => sampleUid(uid, sample))
+}
+
+// Усі спроби всіх запусків: спершу всі запуски спроби 0, потім спроби 1 тощо
+export function sampleRuns(selected: Run[], samples: number): { run: Run; original: Run; sample: number }[] {
+  return Array.from({ length: samples }, (_, sample) =>
+    selected.map((original) => ({ run: withSampleUids(original, sample), original, sample }))
+  ).flat()
+}
+
+// Запуск з `2_runs.json`, якому належить запис спроби `sample` з uid `uuid` (спроби та профілі мають похідні uid)
+export function findSampledRun(selected: Run[], uuid: string, sample = 0, curriculum?: string): Run | undefined {
+  return selected.find((run) => curriculumUid(sampleUid(run.uuid, sample), curriculum) === uuid)
+}
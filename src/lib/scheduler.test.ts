@@ -0,0 +1,40 @@
+import { describe, expect, test } from 'bun:test'
+import runs from '../../2_runs.json'
+import { buildChains } from './scheduler'
+
+type Run = (typeof runs)[0]
+
+const run = (uuid: string, links: { uuidFeedback?: string; uuidConflictingDocs?: string } = {}): Run =>
+  ({ ...(runs[0] as Run), uuid, uuidFeedback: undefined, uuidConflictingDocs: undefined, ...links }) as Run
+
+const uuids = (chains: Run[][]) => chains.map((chain) => chain.map((r) => r.uuid))
+
+describe('buildChains', () => {
+  test('keeps unrelated runs in separate chains', () => {
+    expect(uuids(buildChains([run('a'), run('b')]))).toEqual([['a'], ['b']])
+  })
+
+  test('chains a first run with its isAfterFeedback twin', () => {
+    expect(uuids(buildChains([run('a', { uuidFeedback: 'a2' }), run('b'), run('a2')]))).toEqual([['a', 'a2'], ['b']])
+  })
+
+  test('merges chains joined by a later run and keeps the original order', () => {
+    const all = [
+      run('a', { uuidFeedback: 'a2' }),
+      run('c', { uuidFeedback: 'c2' }),
+      run('a2'),
+      run('c2', { uuidConflictingDocs: 'a' })
+    ]
+    expect(uuids(buildChains(all))).toEqual([['a', 'c', 'a2', 'c2']])
+  })
+
+  test('never splits run families of 2_runs.json across chains', () => {
+    const chains = buildChains(runs)
+    expect(chains.flat()).toHaveLength(runs.length)
+    const chainOf = new Map(chains.flatMap((chain, i) => chain.map((r) => [r.uuid, i] as const)))
+    for (const r of runs) {
+      if (r.uuidFeedback && chainOf.has(r.uuidFeedback)) expect(chainOf.get(r.uuidFeedback)).toBe(chainOf.get(r.uuid))
+      if (r.uuidConflictingDocs) expect(chainOf.get(r.uuidConflictingDocs)).toBe(chainOf.get(r.uuid))
+    }
+  })
+})
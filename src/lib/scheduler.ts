@@ -0,0 +1,35 @@
+import type runs from '../../2_runs.json'
+
+type Run = (typeof runs)[0]
+
+// Сесії агента (uid), до яких звертається запуск: сам запуск, його фідбек та навчання конфліктному алгоритму
+const sessionUids = (run: Run) =>
+  [run.uuid, run.uuidFeedback, run.uuidConflictingDocs].filter((uid): uid is string => uid !== undefined)
+
+// Групує запуски в ланцюжки, які можна виконувати паралельно. Запуски, що звертаються до спільної сесії агента,
+// потрапляють в один ланцюжок і виконуються послідовно в порядку `runs`: так перший запуск, його фідбек та
+// `isAfterFeedback` двійник (uuid == uuidFeedback першого), а також конфліктний запуск, що навчається в сесії
+// звичайного (uuidConflictingDocs), отримують повідомлення в тому ж порядку, що й при послідовному eval
+export function buildChains(all: Run[]): Run[][] {
+  const chainByUid = new Map<string, Run[]>()
+  const chains: Run[][] = []
+
+  for (const run of all) {
+    const uids = sessionUids(run)
+    const linked = [...new Set(uids.map((uid) => chainByUid.get(uid)).filter((c) => c !== undefined))]
+
+    // Новий запуск може поєднати кілька ланцюжків -- обʼєднуємо їх у перший (зі збереженням порядку)
+    const [chain = [], ...merged] = linked
+    if (!linked.length) chains.push(chain)
+    for (const other of merged) {
+      chain.push(...other)
+      chains.splice(chains.indexOf(other), 1)
+      for (const r of other) for (const uid of sessionUids(r)) chainByUid.set(uid, chain)
+    }
+    chain.push(run)
+    for (const uid of uids) chainByUid.set(uid, chain)
+  }
+
+  for (const chain of chains) chain.sort((a, b) => all.indexOf(a) - all.indexOf(b))
+  return chains
+}
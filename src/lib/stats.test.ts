@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test'
+import { bootstrapInterval, mean, passAtK, seededRandom, stddev } from './stats'
+
+test('mean and sample standard deviation', () => {
+  expect(mean([])).toBe(0)
+  expect(mean([1, 2, 3])).toBe(2)
+  expect(stddev([1])).toBe(0)
+  expect(stddev([2, 4, 4, 4, 5, 5, 7, 9])).toBeCloseTo(2.138, 3)
+})
+
+test('seededRandom is deterministic and within [0, 1)', () => {
+  const a = seededRandom(7)
+  const b = seededRandom(7)
+  const values = Array.from({ length: 100 }, () => a())
+  expect(values).toEqual(Array.from({ length: 100 }, () => b()))
+  expect(values.every((v) => v >= 0 && v < 1)).toBe(true)
+})
+
+describe('passAtK', () => {
+  test('matches 1 - C(n-c, k) / C(n, k)', () => {
+    // C(3, 2) / C(5, 2) = 3 / 10
+    expect(passAtK(5, 2, 2)).toBeCloseTo(0.7)
+    expect(passAtK(5, 2, 1)).toBeCloseTo(0.4)
+  })
+
+  test('is 0 without successes and 1 when every draw of k must succeed', () => {
+    expect(passAtK(5, 0, 3)).toBe(0)
+    expect(passAtK(5, 3, 3)).toBe(1)
+  })
+})
+
+describe('bootstrapInterval', () => {
+  test('collapses to the mean for fewer than two values or identical values', () => {
+    expect(bootstrapInterval([0.5])).toEqual({ mean: 0.5, low: 0.5, high: 0.5 })
+    expect(bootstrapInterval([1, 1, 1])).toEqual({ mean: 1, low: 1, high: 1 })
+  })
+
+  test('contains the mean, stays within the data and is reproducible', () => {
+    const values = [0, 0.2, 0.5, 0.5, 0.8, 1, 1, 0.3]
+    const interval = bootstrapInterval(values)
+    expect(interval.low).toBeLessThanOrEqual(interval.mean)
+    expect(interval.high).toBeGreaterThanOrEqual(interval.mean)
+    expect(interval.low).toBeGreaterThanOrEqual(0)
+    expect(interval.high).toBeLessThanOrEqual(1)
+    expect(bootstrapInterval(values)).toEqual(interval)
+  })
+
+  test('narrows with more data', () => {
+    const small = bootstrapInterval([0, 1, 0, 1])
+    const large = bootstrapInterval(Array.from({ length: 64 }, (_, i) => i % 2))
+    expect(large.high - large.low).toBeLessThan(small.high - small.low)
+  })
+})
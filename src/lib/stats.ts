@@ -0,0 +1,59 @@
+// Статистика для повторних запусків (`--samples`): середнє, стандартне відхилення та бутстреп-інтервали
+
+export interface Interval {
+  mean: number
+  low: number
+  high: number
+}
+
+export const bootstrapIterations = 2000
+
+export const mean = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0)
+
+// Вибіркове стандартне відхилення (n - 1)
+export function stddev(values: number[]): number {
+  if (values.length < 2) return 0
+  const m = mean(values)
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1))
+}
+
+// Детермінований генератор (mulberry32), щоби інтервали не змінювались між викликами `report`, а порядок
+// профілю навчання `shuffled` -- між eval
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Процентильний бутстреп-інтервал для середнього `values` (кожне значення -- окрема незалежна одиниця)
+export function bootstrapInterval(values: number[], confidence = 0.95, seed = 42): Interval {
+  const m = mean(values)
+  if (values.length < 2) return { mean: m, low: m, high: m }
+  const next = seededRandom(seed)
+  const means: number[] = []
+  for (let i = 0; i < bootstrapIterations; i++) {
+    let sum = 0
+    for (let j = 0; j < values.length; j++) sum += values[Math.floor(next() * values.length)] ?? 0
+    means.push(sum / values.length)
+  }
+  means.sort((a, b) => a - b)
+  const tail = (1 - confidence) / 2
+  return {
+    mean: m,
+    low: means[Math.floor(tail * (means.length - 1))] ?? m,
+    high: means[Math.ceil((1 - tail) * (means.length - 1))] ?? m
+  }
+}
+
+// Незміщена оцінка pass@k з `n` спроб, з яких `c` успішні (Chen et al., 2021)
+export function passAtK(n: number, c: number, k: number): number {
+  if (n - c < k) return 1
+  let fail = 1
+  for (let i = n - c + 1; i <= n; i++) fail *= 1 - k / i
+  return 1 - fail
+}
@@ -0,0 +1,60 @@
+import { describe, expect, test } from 'bun:test'
+import { formatMavkaArgs, parseTestCases, TestCaseParseError } from './test_cases'
+
+describe('parseTestCases (text)', () => {
+  test('parses numbers, strings, lists, dictionaries and keywords', () => {
+    const [testCase] = parseTestCases('-2.5, "а, \\"б\\"", [1, [2, 3]], { "ключ" => 1 }, дійсне, пусто -> 42')
+    expect(testCase?.expected).toBe('42')
+    expect(testCase?.args).toEqual([-2.5, 'а, "б"', [1, [2, 3]], new Map([['ключ', 1]]), true, null])
+  })
+
+  test('keeps everything after "->" as the expected output', () => {
+    const [testCase] = parseTestCases('[25,30,35] -> [1, 2] -> 3')
+    expect(testCase?.input).toBe('[25,30,35]')
+    expect(testCase?.expected).toBe('[1, 2] -> 3')
+  })
+
+  test('skips blank lines and comments', () => {
+    expect(parseTestCases('# коментар\n1 -> 1\n\n2 -> 2')).toHaveLength(2)
+  })
+
+  test('reports the line and column of a syntax error', () => {
+    try {
+      parseTestCases('1 -> 1\n[1, 2 -> 3')
+      throw new Error('expected a parse error')
+    } catch (e) {
+      expect(e).toBeInstanceOf(TestCaseParseError)
+      expect((e as TestCaseParseError).line).toBe(2)
+    }
+  })
+
+  test('rejects a case without expected output', () => {
+    expect(() => parseTestCases('1, 2 ->')).toThrow(TestCaseParseError)
+  })
+
+  test('applies the run comparator', () => {
+    const [testCase] = parseTestCases('1 -> 1', 'numeric')
+    expect(testCase?.comparator).toBe('numeric')
+  })
+})
+
+describe('parseTestCases (JSON)', () => {
+  test('maps objects to dictionaries and null to пусто', () => {
+    const [testCase] = parseTestCases([{ args: [[1, 2], { а: null }], expected: '3' }])
+    expect(testCase?.args).toEqual([[1, 2], new Map([['а', null]])])
+    expect(testCase?.input).toBe('[1, 2], { "а" => пусто }')
+  })
+
+  test('prefers the per-case comparator over the run comparator', () => {
+    const [testCase] = parseTestCases([{ args: [], expected: 'x', comparator: 'text' }], 'numeric')
+    expect(testCase?.comparator).toBe('text')
+  })
+
+  test('rejects malformed cases', () => {
+    expect(() => parseTestCases([{ args: 1, expected: '3' }])).toThrow(TestCaseParseError)
+  })
+})
+
+test('formatMavkaArgs escapes strings', () => {
+  expect(formatMavkaArgs(['a"b\n', false, 1.5])).toBe('"a\\"b\\n", недійсне, 1.5')
+})
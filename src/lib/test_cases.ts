@@ -0,0 +1,207 @@
+import z from 'zod'
+import { type ComparatorConfig, comparatorSchema, parseComparator } from './comparators'
+import type { MavkaValue, TestCase } from './types'
+
+// Формат тест-кейсів у `2_runs.json`:
+//  - текстовий: рядок на кейс, `<аргументи через кому> -> <очікуваний вивід>`, де аргументи -- літерали Мавки
+//    (числа, "тексти" з \-екрануванням, [списки], { "ключ" => значення }, дійсне, недійсне, пусто)
+//  - JSON: `[{ "args": [...], "expected": "...", "comparator"?: ... }]`, де обʼєкти -- словники, а null -- пусто
+
+export class TestCaseParseError extends Error {
+  constructor(
+    message: string,
+    public readonly line: number,
+    public readonly column?: number,
+    public readonly source?: string
+  ) {
+    super(
+      `Test case line ${line}${column !== undefined ? `, column ${column}` : ''}: ${message}${source !== undefined ? `\n  ${source}${column !== undefined ? `\n  ${' '.repeat(column - 1)}^` : ''}` : ''}`
+    )
+    this.name = 'TestCaseParseError'
+  }
+}
+
+const jsonValue: z.ZodType<unknown> = z.lazy(() =>
+  z.union([z.number(), z.string(), z.boolean(), z.null(), z.array(jsonValue), z.record(z.string(), jsonValue)])
+)
+const jsonTestCases = z.array(
+  z.object({ args: z.array(jsonValue), expected: z.string(), comparator: comparatorSchema.optional() })
+)
+export type JsonTestCase = z.infer<typeof jsonTestCases>[number]
+
+// --- Tokenizer ---
+
+type Token =
+  | { type: 'number' | 'string'; value: number | string; column: number }
+  | { type: 'word'; value: string; column: number }
+  | { type: '[' | ']' | '{' | '}' | ',' | '=>' | '->'; column: number }
+
+const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '"': '"', "'": "'", '\\': '\\' }
+
+// Повертає токени аргументів та позицію, з якої починається очікуваний вивід (після `->`)
+function tokenize(text: string, line: number): { tokens: Token[]; expectedAt: number } {
+  const tokens: Token[] = []
+  const fail = (message: string, index: number): never => {
+    throw new TestCaseParseError(message, line, index + 1, text)
+  }
+
+  let i = 0
+  while (i < text.length) {
+    const c = text[i] as string
+    if (/\s/.test(c)) {
+      i++
+    } else if (text.startsWith('->', i)) {
+      tokens.push({ type: '->', column: i + 1 })
+      return { tokens, expectedAt: i + 2 }
+    } else if (text.startsWith('=>', i)) {
+      tokens.push({ type: '=>', column: i + 1 })
+      i += 2
+    } else if ('[]{},'.includes(c)) {
+      tokens.push({ type: c as '[' | ']' | '{' | '}' | ',', column: i + 1 })
+      i++
+    } else if (c === '"') {
+      let value = ''
+      let j = i + 1
+      while (text[j] !== '"') {
+        if (j >= text.length) fail('unterminated string', i)
+        if (text[j] === '\\') {
+          const escaped = escapes[text[j + 1] ?? '']
+          if (escaped === undefined) fail(`unknown escape sequence "\\${text[j + 1] ?? ''}"`, j)
+          value += escaped
+          j += 2
+        } else {
+          value += text[j]
+          j++
+        }
+      }
+      tokens.push({ type: 'string', value, column: i + 1 })
+      i = j + 1
+    } else if (c === "'") {
+      // 'є' -- число (код символу), як і в Мавці
+      const match = text.slice(i).match(/^'(.)'/u)
+      if (!match?.[1]) fail('expected a single character in quotes', i)
+      tokens.push({ type: 'number', value: match?.[1]?.codePointAt(0) ?? 0, column: i + 1 })
+      i += match?.[0].length ?? 1
+    } else {
+      const number = text.slice(i).match(/^-?\d+(\.\d+)?/)
+      const word = text.slice(i).match(/^[\p{L}_][\p{L}\p{N}_ʼ']*/u)
+      if (number) {
+        tokens.push({ type: 'number', value: Number(number[0]), column: i + 1 })
+        i += number[0].length
+      } else if (word) {
+        tokens.push({ type: 'word', value: word[0], column: i + 1 })
+        i += word[0].length
+      } else {
+        fail(`unexpected character "${c}"`, i)
+      }
+    }
+  }
+  return fail('expected "->" followed by the expected output', text.length)
+}
+
+// --- Parser ---
+
+const words: Record<string, MavkaValue> = { дійсне: true, недійсне: false, пусто: null }
+
+function parseArgs(tokens: Token[], line: number, source: string): MavkaValue[] {
+  let pos = 0
+  const fail = (message: string, token?: Token): never => {
+    throw new TestCaseParseError(message, line, token?.column, source)
+  }
+  const peek = () => tokens[pos]
+  const expect = (type: Token['type']) => {
+    const token = tokens[pos++]
+    if (token?.type !== type) fail(`expected "${type}"`, token)
+  }
+
+  // Список значень через кому до `close` (кома в кінці дозволена)
+  const parseSequence = <T>(close: Token['type'], item: () => T): T[] => {
+    const items: T[] = []
+    while (peek()?.type !== close) {
+      items.push(item())
+      if (peek()?.type !== ',') break
+      pos++
+    }
+    expect(close)
+    return items
+  }
+
+  const parseValue = (): MavkaValue => {
+    const token = tokens[pos++]
+    if (!token) return fail('expected a value')
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return token.value
+      case 'word':
+        if (!(token.value in words)) fail(`unknown identifier "${token.value}" (texts must be quoted)`, token)
+        return words[token.value] ?? null
+      case '[':
+        return parseSequence(']', parseValue)
+      case '{':
+        return new Map(
+          parseSequence('}', () => {
+            const key = parseValue()
+            expect('=>')
+            return [key, parseValue()] as const
+          })
+        )
+      default:
+        return fail(`unexpected "${token.type}"`, token)
+    }
+  }
+
+  return parseSequence('->', parseValue)
+}
+
+// --- Formatting ---
+
+export function formatMavkaValue(value: MavkaValue): string {
+  if (value === null) return 'пусто'
+  if (typeof value === 'boolean') return value ? 'дійсне' : 'недійсне'
+  if (typeof value === 'number') return String(value)
+  if (typeof value === 'string')
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\t/g, '\\t')}"`
+  if (Array.isArray(value)) return `[${value.map(formatMavkaValue).join(', ')}]`
+  return `{ ${[...value].map(([k, v]) => `${formatMavkaValue(k)} => ${formatMavkaValue(v)}`).join(', ')} }`
+}
+
+export const formatMavkaArgs = (args: MavkaValue[]) => args.map(formatMavkaValue).join(', ')
+
+function fromJson(value: unknown): MavkaValue {
+  if (Array.isArray(value)) return value.map(fromJson)
+  if (value !== null && typeof value === 'object')
+    return new Map(Object.entries(value).map(([k, v]) => [k, fromJson(v)]))
+  return value as MavkaValue
+}
+
+// --- Entry point ---
+
+// `comparator` -- компаратор запуску (`private.comparator`), кейс може задати власний
+export function parseTestCases(tests: string | unknown[], comparator?: unknown): TestCase[] {
+  const runComparator: ComparatorConfig | undefined = parseComparator(comparator)
+  if (typeof tests !== 'string') {
+    const parsed = jsonTestCases.safeParse(tests)
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0]
+      throw new TestCaseParseError(`${issue?.message} at ${issue?.path.join('.')}`, Number(issue?.path[0] ?? 0) + 1)
+    }
+    return parsed.data.map((t) => {
+      const args = t.args.map(fromJson)
+      return { input: formatMavkaArgs(args), expected: t.expected, args, comparator: t.comparator ?? runComparator }
+    })
+  }
+
+  const testCases: TestCase[] = []
+  for (const [index, line] of tests.trim().split('\n').entries()) {
+    if (!line.trim() || line.startsWith('#')) continue
+
+    const { tokens, expectedAt } = tokenize(line, index + 1)
+    const expected = line.slice(expectedAt).trim()
+    if (!expected) throw new TestCaseParseError('missing expected output after "->"', index + 1, undefined, line)
+
+    const args = parseArgs(tokens, index + 1, line)
+    testCases.push({ input: line.slice(0, expectedAt - 2).trim(), expected, args, comparator: runComparator })
+  }
+  return testCases
+}
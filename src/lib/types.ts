@@ -1,12 +1,26 @@
+import type { ComparatorConfig } from './comparators'
+
+// Значення Мавки, яке можна передати в `алгоритм` (Map -- словник, null -- пусто)
+export type MavkaValue = number | string | boolean | null | MavkaValue[] | Map<MavkaValue, MavkaValue>
+
 export interface TestCase {
   input: string
   expected: string
-  args: unknown[]
+  args: MavkaValue[]
+  // Порівняння виводу (кейсу чи запуску); за замовчуванням -- `exact`
+  comparator?: ComparatorConfig
 }
 
+// `crash` -- помилка виконання (stderr чи ненульовий код виходу), `timeout` та `output-limit` -- процес зупинено runner-ом
+export type TestOutcome = 'passed' | 'failed' | 'crash' | 'timeout' | 'output-limit'
+
 export interface TestResult {
   passed: boolean
+  outcome: TestOutcome
   input: string
   expected: string
   actual: string
+  // Назва компаратора, яким перевірено вивід
+  comparator: string
+  ms?: number
 }
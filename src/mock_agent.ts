@@ -0,0 +1,44 @@
+import { parseArgs } from 'node:util'
+import { type MockBehaviour, mockBehaviours, startMockAgent } from './lib/mock_agent'
+
+const { values } = parseArgs({
+  args: Bun.argv.slice(2),
+  options: {
+    port: { type: 'string', default: '3000' },
+    behaviour: { type: 'string', default: 'ideal' },
+    script: { type: 'string' },
+    protocol: { type: 'string', default: 'text' },
+    'delay-ms': { type: 'string' }
+  }
+})
+
+const isBehaviour = (b: unknown): b is MockBehaviour => mockBehaviours.includes(b as MockBehaviour)
+
+if (!isBehaviour(values.behaviour)) {
+  console.error(`Unknown behaviour "${values.behaviour}", expected one of: ${mockBehaviours.join(', ')}`)
+  process.exit(2)
+}
+
+const protocol = values.protocol
+if (protocol !== 'text' && protocol !== 'openai' && protocol !== 'sse') {
+  console.error(`Unknown protocol "${protocol}", expected text, openai or sse`)
+  process.exit(2)
+}
+
+// Файл сценарію: { "<uuid або номер алгоритму>": "<поведінка>" }
+const script: Record<string, MockBehaviour> = values.script ? await Bun.file(values.script).json() : {}
+for (const [key, behaviour] of Object.entries(script)) {
+  if (!isBehaviour(behaviour)) {
+    console.error(`Unknown behaviour "${behaviour}" for "${key}" in ${values.script}`)
+    process.exit(2)
+  }
+}
+
+const server = startMockAgent({
+  port: Number(values.port),
+  behaviour: values.behaviour,
+  script,
+  delayMs: values['delay-ms'] ? Number(values['delay-ms']) : undefined,
+  protocol
+})
+console.log(`Mock agent listening on ${server.url}text (behaviour: ${values.behaviour}, protocol: ${protocol})`)